@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tsconfig.test.json' }],
+  },
+  // Starts a throwaway Postgres (or uses TEST_DATABASE_URL) and migrates it
+  globalSetup: '<rootDir>/tests/globalSetup.mjs',
+  globalTeardown: '<rootDir>/tests/globalTeardown.mjs',
+  setupFiles: ['<rootDir>/tests/setupEnv.ts'],
+  testTimeout: 30000,
+};
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "ReservationStatus" AS ENUM ('ACTIVE', 'CONVERTED', 'RELEASED');
+
+-- CreateTable
+CREATE TABLE "StockReservation" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "status" "ReservationStatus" NOT NULL DEFAULT 'ACTIVE',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockReservation_orderId_idx" ON "StockReservation"("orderId");
+
+-- CreateIndex
+CREATE INDEX "StockReservation_status_expiresAt_idx" ON "StockReservation"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: stock for orders paid before reservations existed was already
+-- decremented by the webhook, so record it as converted. This lets
+-- cancellations restock those orders the same way as new ones.
+INSERT INTO "StockReservation" ("id", "orderId", "productId", "variantId", "quantity", "status", "expiresAt", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, oi."orderId", oi."productId", oi."variantId", oi."quantity", 'CONVERTED', o."createdAt", o."createdAt", CURRENT_TIMESTAMP
+FROM "OrderItem" oi
+JOIN "Order" o ON o."id" = oi."orderId"
+JOIN "Product" p ON p."id" = oi."productId"
+WHERE o."paymentStatus" = 'PAID'
+  AND o."status" NOT IN ('CANCELLED', 'REFUNDED')
+  AND p."trackInventory" = true;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "refundedAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "stripePaymentIntentId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_stripePaymentIntentId_key" ON "Order"("stripePaymentIntentId");
+
+-- Orders refunded before this column existed were refunded in full
+UPDATE "Order" SET "refundedAmount" = "total" WHERE "paymentStatus" = 'REFUNDED';
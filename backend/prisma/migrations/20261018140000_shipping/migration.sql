@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingMethodId" TEXT,
+ADD COLUMN     "shippingMethodName" TEXT,
+ADD COLUMN     "shippingZoneName" TEXT;
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "countries" TEXT[],
+    "cities" TEXT[],
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingMethod" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "minDays" INTEGER,
+    "maxDays" INTEGER,
+    "isPickup" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingMethod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingRate" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "methodId" TEXT NOT NULL,
+    "minWeight" DECIMAL(8,2),
+    "maxWeight" DECIMAL(8,2),
+    "minSubtotal" DECIMAL(10,2),
+    "maxSubtotal" DECIMAL(10,2),
+    "price" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShippingMethod_code_key" ON "ShippingMethod"("code");
+
+-- CreateIndex
+CREATE INDEX "ShippingRate_zoneId_methodId_idx" ON "ShippingRate"("zoneId", "methodId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_shippingMethodId_fkey" FOREIGN KEY ("shippingMethodId") REFERENCES "ShippingMethod"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "ShippingRate_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "ShippingRate_methodId_fkey" FOREIGN KEY ("methodId") REFERENCES "ShippingMethod"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "taxClassId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "taxBreakdown" JSONB,
+ADD COLUMN     "taxMode" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "taxAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "TaxClass" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxClass_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaxRate" (
+    "id" TEXT NOT NULL,
+    "taxClassId" TEXT NOT NULL,
+    "zoneId" TEXT,
+    "name" TEXT NOT NULL,
+    "rate" DECIMAL(5,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxClass_code_key" ON "TaxClass"("code");
+
+-- CreateIndex
+CREATE INDEX "TaxRate_taxClassId_idx" ON "TaxRate"("taxClassId");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_taxClassId_fkey" FOREIGN KEY ("taxClassId") REFERENCES "TaxClass"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaxRate" ADD CONSTRAINT "TaxRate_taxClassId_fkey" FOREIGN KEY ("taxClassId") REFERENCES "TaxClass"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaxRate" ADD CONSTRAINT "TaxRate_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
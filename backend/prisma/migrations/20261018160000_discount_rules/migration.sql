@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "DiscountCode" ADD COLUMN     "categoryIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "excludeSaleItems" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isCombinable" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "maxUsesPerCustomer" INTEGER,
+ADD COLUMN     "productIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "tagIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "discountAmount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "DiscountRedemption" (
+    "id" TEXT NOT NULL,
+    "discountCodeId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "userId" TEXT,
+    "email" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DiscountRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DiscountRedemption_discountCodeId_userId_idx" ON "DiscountRedemption"("discountCodeId", "userId");
+
+-- CreateIndex
+CREATE INDEX "DiscountRedemption_discountCodeId_email_idx" ON "DiscountRedemption"("discountCodeId", "email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DiscountRedemption_discountCodeId_orderId_key" ON "DiscountRedemption"("discountCodeId", "orderId");
+
+-- AddForeignKey
+ALTER TABLE "DiscountRedemption" ADD CONSTRAINT "DiscountRedemption_discountCodeId_fkey" FOREIGN KEY ("discountCodeId") REFERENCES "DiscountCode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiscountRedemption" ADD CONSTRAINT "DiscountRedemption_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiscountRedemption" ADD CONSTRAINT "DiscountRedemption_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Record redemptions for orders placed before per-customer tracking
+INSERT INTO "DiscountRedemption" ("id", "discountCodeId", "orderId", "userId", "email", "amount", "createdAt")
+SELECT gen_random_uuid()::text, o."discountCodeId", o."id", o."userId", lower(o."email"), o."discountAmount", o."createdAt"
+FROM "Order" o
+WHERE o."discountCodeId" IS NOT NULL;
+
+-- Spread existing order discounts over their items
+UPDATE "OrderItem" oi
+SET "discountAmount" = round(oi."total" * o."discountAmount" / o."subtotal", 2)
+FROM "Order" o
+WHERE oi."orderId" = o."id" AND o."discountAmount" > 0 AND o."subtotal" > 0;
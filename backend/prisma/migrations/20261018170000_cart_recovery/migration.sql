@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "CartRecoveryStatus" AS ENUM ('SENT', 'CLICKED', 'RECOVERED');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "cartSessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CartRecovery" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "sessionId" TEXT,
+    "email" TEXT NOT NULL,
+    "status" "CartRecoveryStatus" NOT NULL DEFAULT 'SENT',
+    "items" JSONB NOT NULL,
+    "cartValue" DECIMAL(10,2) NOT NULL,
+    "cartUpdatedAt" TIMESTAMP(3) NOT NULL,
+    "discountCodeId" TEXT,
+    "orderId" TEXT,
+    "recoveredAmount" DECIMAL(10,2),
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "clickedAt" TIMESTAMP(3),
+    "recoveredAt" TIMESTAMP(3),
+
+    CONSTRAINT "CartRecovery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Order_cartSessionId_idx" ON "Order"("cartSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartRecovery_discountCodeId_key" ON "CartRecovery"("discountCodeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartRecovery_orderId_key" ON "CartRecovery"("orderId");
+
+-- CreateIndex
+CREATE INDEX "CartRecovery_userId_idx" ON "CartRecovery"("userId");
+
+-- CreateIndex
+CREATE INDEX "CartRecovery_sessionId_idx" ON "CartRecovery"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "CartRecovery_email_idx" ON "CartRecovery"("email");
+
+-- CreateIndex
+CREATE INDEX "CartRecovery_status_idx" ON "CartRecovery"("status");
+
+-- CreateIndex
+CREATE INDEX "CartRecovery_sentAt_idx" ON "CartRecovery"("sentAt");
+
+-- AddForeignKey
+ALTER TABLE "CartRecovery" ADD CONSTRAINT "CartRecovery_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartRecovery" ADD CONSTRAINT "CartRecovery_discountCodeId_fkey" FOREIGN KEY ("discountCodeId") REFERENCES "DiscountCode"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartRecovery" ADD CONSTRAINT "CartRecovery_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "UserTokenType" ADD VALUE 'EMAIL_VERIFICATION';
+
+-- Accounts created before verification existed can't be asked to verify
+-- retroactively, so they count as verified
+UPDATE "User" SET "emailVerified" = true WHERE "createdAt" < now();
@@ -0,0 +1,11 @@
+-- Tokens move from JS-readable storage to httpOnly cookies, so existing
+-- sessions are signed out rather than backfilled
+DELETE FROM "Session";
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "familyId" TEXT NOT NULL,
+ADD COLUMN     "revokedAt" TIMESTAMP(3),
+ADD COLUMN     "rotatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Session_familyId_idx" ON "Session"("familyId");
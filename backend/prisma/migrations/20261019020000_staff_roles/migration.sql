@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "UserRole" ADD VALUE 'FULFILLER';
+ALTER TYPE "UserRole" ADD VALUE 'CATALOG_EDITOR';
+ALTER TYPE "UserRole" ADD VALUE 'SUPPORT_AGENT';
+ALTER TYPE "UserRole" ADD VALUE 'ANALYST';
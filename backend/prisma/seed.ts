@@ -270,15 +270,147 @@ async function main() {
   ]);
   console.log('✅ Discount codes created:', discounts.length);
 
+  // Create shipping methods
+  const methodData = [
+    { code: 'standard', name: 'Standard Delivery', minDays: 3, maxDays: 7, sortOrder: 0 },
+    { code: 'express', name: 'Express Delivery', minDays: 1, maxDays: 2, sortOrder: 1 },
+    { code: 'pickup', name: 'Store Pickup', description: 'Collect your order from our store', isPickup: true, sortOrder: 2 },
+  ];
+
+  const methods: Record<string, string> = {};
+  for (const method of methodData) {
+    const created = await prisma.shippingMethod.upsert({
+      where: { code: method.code },
+      update: {},
+      create: method,
+    });
+    methods[method.code] = created.id;
+  }
+
+  // Create shipping zones and rates (ILS, weights in kg)
+  const zoneData = [
+    {
+      name: 'Jerusalem',
+      countries: [],
+      cities: ['Jerusalem', 'Al-Quds', 'القدس'],
+      priority: 10,
+      rates: [
+        { method: 'standard', price: 30 },
+        { method: 'standard', minSubtotal: 300, price: 0 },
+        { method: 'express', price: 55 },
+      ],
+    },
+    {
+      name: 'West Bank',
+      countries: ['Palestine'],
+      cities: [],
+      priority: 0,
+      rates: [
+        { method: 'standard', maxWeight: 2, price: 25 },
+        { method: 'standard', minWeight: 2, maxWeight: 5, price: 35 },
+        { method: 'standard', minWeight: 5, price: 50 },
+        { method: 'standard', minSubtotal: 200, price: 0 },
+        { method: 'express', price: 45 },
+        { method: 'pickup', price: 0 },
+      ],
+    },
+    {
+      name: 'Israel 48',
+      countries: ['Israel'],
+      cities: [],
+      priority: 0,
+      rates: [
+        { method: 'standard', price: 40 },
+        { method: 'standard', minSubtotal: 400, price: 0 },
+        { method: 'express', price: 70 },
+      ],
+    },
+    {
+      name: 'International',
+      countries: [],
+      cities: [],
+      priority: -10,
+      rates: [
+        { method: 'standard', maxWeight: 2, price: 120 },
+        { method: 'standard', minWeight: 2, price: 200 },
+      ],
+    },
+  ];
+
+  for (const { rates, ...zone } of zoneData) {
+    const existing = await prisma.shippingZone.findFirst({ where: { name: zone.name } });
+    if (existing) continue;
+
+    await prisma.shippingZone.create({
+      data: {
+        ...zone,
+        rates: {
+          create: rates.map(({ method, ...rate }) => ({ ...rate, methodId: methods[method] })),
+        },
+      },
+    });
+  }
+  console.log('✅ Shipping zones created:', zoneData.length);
+
+  // Create tax classes and VAT rates per zone
+  const taxData = [
+    {
+      code: 'standard',
+      name: 'Standard',
+      isDefault: true,
+      rates: [
+        { zone: null, rate: 16 },
+        { zone: 'West Bank', rate: 16 },
+        { zone: 'Jerusalem', rate: 18 },
+        { zone: 'Israel 48', rate: 18 },
+        { zone: 'International', rate: 0 }, // Exports are zero-rated
+      ],
+    },
+    {
+      code: 'zero',
+      name: 'Zero Rated',
+      isDefault: false,
+      rates: [{ zone: null, rate: 0 }],
+    },
+  ];
+
+  for (const { rates, ...taxClass } of taxData) {
+    const existing = await prisma.taxClass.findUnique({ where: { code: taxClass.code } });
+    if (existing) continue;
+
+    const zoneIds: Record<string, string> = {};
+    for (const zone of await prisma.shippingZone.findMany()) {
+      zoneIds[zone.name] = zone.id;
+    }
+
+    await prisma.taxClass.create({
+      data: {
+        ...taxClass,
+        rates: {
+          create: rates.map(({ zone, rate }) => ({
+            name: 'VAT',
+            rate,
+            zoneId: zone ? zoneIds[zone] : null,
+          })),
+        },
+      },
+    });
+  }
+  console.log('✅ Tax classes created:', taxData.length);
+
   // Create store settings
   const settings = [
     { key: 'store_name', value: 'Zamanẻ ps' },
     { key: 'store_email', value: 'info@zamaneps.com' },
     { key: 'store_phone', value: '+972-XXX-XXXX' },
     { key: 'currency', value: 'ILS' },
-    { key: 'tax_rate', value: 17 },
-    { key: 'free_shipping_threshold', value: 200 },
-    { key: 'shipping_rate', value: 25 },
+    { key: 'tax_mode', value: 'inclusive' }, // Catalog prices include VAT
+    { key: 'tax_shipping', value: true },
+    { key: 'return_window_days', value: 14 },
+    { key: 'pending_order_timeout_minutes', value: 120 }, // Unpaid orders are cancelled after this
+    { key: 'cart_recovery_enabled', value: true },
+    { key: 'cart_recovery_delay_hours', value: 4 }, // Idle time before the reminder
+    { key: 'cart_recovery_discount_percent', value: 10 }, // 0 sends no code
   ];
 
   for (const setting of settings) {
@@ -0,0 +1,150 @@
+// Minimal OpenID Connect provider for trying social sign-in locally.
+//
+// Usage:
+//   npm run oauth:mock
+//
+// Then start the API with OIDC_MOCK_ISSUER=http://localhost:9000 and a
+// "Mock OIDC" button appears on the login page. The provider's sign-in page
+// lets you pick any email, and whether the provider calls it verified, so
+// account linking can be tried without a Google or Apple app.
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+const port = parseInt(process.env.OIDC_MOCK_PORT || '9000');
+const issuer = `http://localhost:${port}`;
+const clientId = 'zamane-dev';
+const clientSecret = 'zamane-dev-secret';
+
+// New signing key per run, like a provider rotating keys
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const kid = crypto.randomBytes(8).toString('hex');
+
+interface PendingCode {
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  email: string;
+  emailVerified: boolean;
+  name: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+});
+
+const escape = (value: unknown) =>
+  String(value ?? '').replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+// Sign-in page. The hidden fields carry the authorization request along.
+app.get('/authorize', (req, res) => {
+  if (req.query.client_id !== clientId) {
+    return res.status(400).send('Unknown client_id');
+  }
+
+  const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escape(req.query[name])}">`)
+    .join('');
+
+  res.send(`
+    <form method="post" style="font-family: sans-serif; max-width: 320px; margin: 80px auto;">
+      <h2>Mock OIDC sign-in</h2>
+      ${hidden}
+      <p><label>Email<br><input name="email" value="customer@example.com" style="width: 100%"></label></p>
+      <p><label>Name<br><input name="name" value="Test Customer" style="width: 100%"></label></p>
+      <p><label><input type="checkbox" name="email_verified" checked> Email verified</label></p>
+      <button type="submit">Sign in</button>
+      <button type="submit" name="deny" value="1">Cancel</button>
+    </form>
+  `);
+});
+
+app.post('/authorize', (req, res) => {
+  const redirect = new URL(req.body.redirect_uri);
+  redirect.searchParams.set('state', req.body.state);
+
+  if (req.body.deny) {
+    redirect.searchParams.set('error', 'access_denied');
+    return res.redirect(redirect.toString());
+  }
+
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, {
+    redirectUri: req.body.redirect_uri,
+    nonce: req.body.nonce || undefined,
+    codeChallenge: req.body.code_challenge || undefined,
+    email: req.body.email,
+    emailVerified: req.body.email_verified === 'on',
+    name: req.body.name,
+    expiresAt: Date.now() + 60 * 1000,
+  });
+
+  redirect.searchParams.set('code', code);
+  res.redirect(redirect.toString());
+});
+
+app.post('/token', (req, res) => {
+  const pending = codes.get(req.body.code);
+  codes.delete(req.body.code);
+
+  if (req.body.client_id !== clientId || req.body.client_secret !== clientSecret) {
+    return res.status(401).json({ error: 'invalid_client' });
+  }
+  if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== req.body.redirect_uri) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+  if (pending.codeChallenge) {
+    const challenge = crypto.createHash('sha256').update(req.body.code_verifier || '').digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+  }
+
+  const [givenName, ...familyName] = pending.name.split(' ');
+
+  // The same email always gets the same subject, like a real account
+  const sub = crypto.createHash('sha256').update(pending.email.toLowerCase()).digest('hex').slice(0, 24);
+
+  const idToken = jwt.sign(
+    {
+      email: pending.email,
+      email_verified: pending.emailVerified,
+      name: pending.name,
+      given_name: givenName,
+      family_name: familyName.join(' '),
+      nonce: pending.nonce,
+    },
+    privateKey,
+    { algorithm: 'RS256', keyid: kid, issuer, audience: clientId, subject: sub, expiresIn: '5m' }
+  );
+
+  res.json({
+    access_token: crypto.randomBytes(16).toString('hex'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken,
+  });
+});
+
+app.listen(port, () => {
+  console.log(`Mock OIDC provider on ${issuer} (client_id ${clientId})`);
+});
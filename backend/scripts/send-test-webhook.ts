@@ -0,0 +1,64 @@
+// Send a locally signed fake Stripe event to the webhook endpoint.
+//
+// Usage:
+//   npm run webhook:test -- <event type> <orderId> [eventId]
+//
+// Example:
+//   npm run webhook:test -- checkout.session.completed clx123 evt_test_1
+//
+// Passing the same eventId twice simulates a Stripe redelivery.
+import dotenv from 'dotenv';
+import Stripe from 'stripe';
+
+dotenv.config();
+
+const [type, orderId, eventId = `evt_test_${Date.now()}`] = process.argv.slice(2);
+
+if (!type || !orderId) {
+  console.error('Usage: npm run webhook:test -- <event type> <orderId> [eventId]');
+  process.exit(1);
+}
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_placeholder', {
+  apiVersion: '2023-10-16',
+});
+const secret = process.env.STRIPE_WEBHOOK_SECRET!;
+const apiUrl = process.env.API_URL || `http://localhost:${process.env.PORT || 5000}/api`;
+
+const event = {
+  id: eventId,
+  object: 'event',
+  type,
+  api_version: '2023-10-16',
+  created: Math.floor(Date.now() / 1000),
+  livemode: false,
+  data: {
+    object: {
+      id: `cs_test_${orderId}`,
+      object: 'checkout.session',
+      payment_status: 'paid',
+      metadata: { orderId },
+    },
+  },
+};
+
+const main = async () => {
+  const payload = JSON.stringify(event);
+  const header = stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+  const response = await fetch(`${apiUrl}/webhooks/stripe`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': header,
+    },
+    body: payload,
+  });
+
+  console.log(response.status, await response.text());
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
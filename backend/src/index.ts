@@ -3,6 +3,7 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
+import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -10,10 +11,13 @@ dotenv.config();
 
 // Import routes
 import authRoutes from './routes/auth';
+import oauthRoutes from './routes/oauth';
 import productRoutes from './routes/products';
 import categoryRoutes from './routes/categories';
 import cartRoutes from './routes/cart';
 import orderRoutes from './routes/orders';
+import returnRoutes from './routes/returns';
+import shippingRoutes from './routes/shipping';
 import userRoutes from './routes/users';
 import adminRoutes from './routes/admin';
 import webhookRoutes from './routes/webhooks';
@@ -23,9 +27,18 @@ import uploadRoutes from './routes/upload';
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
 
+// Import background jobs
+import { startScheduler } from './jobs/scheduler';
+
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Number of proxies in front of the API (e.g. 1 on Railway), so req.ip is
+// the client's address for rate limits and the session list
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', parseInt(process.env.TRUST_PROXY));
+}
+
 // ===================
 // Security Middleware
 // ===================
@@ -47,11 +60,46 @@ app.use('/api', limiter);
 const authLimiter = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
   max: 10, // 10 attempts per hour
-  message: { error: 'Too many login attempts, please try again later.' }
+  message: { error: 'Too many signup attempts, please try again later.' }
 });
-app.use('/api/auth/login', authLimiter);
 app.use('/api/auth/register', authLimiter);
 
+// Looser than signups: many customers can share an office or mobile IP, and
+// guesses at one account are stopped per account (services/loginAttempts)
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30,
+  message: { error: 'Too many login attempts, please try again later.' }
+});
+app.use('/api/auth/login', loginLimiter);
+
+// Reset emails are also throttled per account in the route
+const passwordResetLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5,
+  message: { error: 'Too many password reset requests, please try again later.' }
+});
+app.use('/api/auth/forgot-password', passwordResetLimiter);
+app.use('/api/auth/reset-password', passwordResetLimiter);
+app.use('/api/auth/unlock-account', passwordResetLimiter);
+
+// Guesses at two-factor codes from a signed-in session; the login step is
+// covered by loginLimiter
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20,
+  message: { error: 'Too many attempts, please try again later.' }
+});
+app.use('/api/auth/2fa', twoFactorLimiter);
+
+// Exports gather the customer's whole history, so they are expensive
+const dataExportLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5,
+  message: { error: 'Too many data exports, please try again later.' }
+});
+app.use('/api/users/me/export', dataExportLimiter);
+
 // ===================
 // Body Parsing
 // ===================
@@ -60,6 +108,8 @@ app.use('/api/webhooks/stripe', express.raw({ type: 'application/json' }));
 // JSON for everything else
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
+// Auth tokens are httpOnly cookies
+app.use(cookieParser());
 
 // ===================
 // Logging
@@ -84,11 +134,14 @@ app.get('/health', (req, res) => {
 // ===================
 // API Routes
 // ===================
+app.use('/api/auth/oauth', oauthRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/products', productRoutes);
 app.use('/api/categories', categoryRoutes);
 app.use('/api/cart', cartRoutes);
 app.use('/api/orders', orderRoutes);
+app.use('/api/returns', returnRoutes);
+app.use('/api/shipping', shippingRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/webhooks', webhookRoutes);
@@ -113,6 +166,12 @@ app.listen(PORT, () => {
   ║   Health: http://localhost:${PORT}/health   ║
   ╚════════════════════════════════════════╝
   `);
+
+  if (process.env.DISABLE_SCHEDULER !== 'true') {
+    startScheduler().catch((error) => {
+      console.error('Failed to start job scheduler:', error);
+    });
+  }
 });
 
 export default app;
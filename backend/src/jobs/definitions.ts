@@ -0,0 +1,57 @@
+import { prisma } from '../lib/prisma';
+import { defineJob } from './queue';
+import { retryFailedStripeEvents } from '../services/stripeWebhooks';
+import { releaseExpiredReservations } from '../services/inventory';
+import { sendCartRecoveryEmails } from '../services/cartRecovery';
+import { sendOrderConfirmation } from '../services/email';
+import { cancelStalePendingOrders, purgeExpiredSessions } from '../services/maintenance';
+import { purgeExpiredUserTokens } from '../services/userTokens';
+import { deleteScheduledAccounts } from '../services/accountDeletion';
+
+// Completed jobs are kept this long for debugging. Dead jobs stay until an
+// admin retries or deletes them.
+const COMPLETED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ===================
+// RECURRING (see scheduler.ts)
+// ===================
+defineJob('retry-stripe-webhooks', () => retryFailedStripeEvents(), { maxAttempts: 1 });
+
+defineJob('release-expired-reservations', () => releaseExpiredReservations(), { maxAttempts: 1 });
+
+defineJob('send-cart-recovery-emails', () => sendCartRecoveryEmails(), { maxAttempts: 1 });
+
+defineJob('cancel-stale-orders', () => cancelStalePendingOrders(), { maxAttempts: 1 });
+
+defineJob('purge-expired-sessions', async () => {
+  await purgeExpiredSessions();
+  await purgeExpiredUserTokens();
+}, { maxAttempts: 1 });
+
+defineJob('purge-completed-jobs', () =>
+  prisma.job.deleteMany({
+    where: { status: 'COMPLETED', completedAt: { lt: new Date(Date.now() - COMPLETED_JOB_RETENTION_MS) } }
+  }),
+  { maxAttempts: 1 }
+);
+
+defineJob('delete-scheduled-accounts', () => deleteScheduledAccounts(), { maxAttempts: 1 });
+
+// ===================
+// ONE-OFF
+// ===================
+defineJob<{ orderId: string }>('send-order-confirmation', async ({ orderId }) => {
+  const order = await prisma.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: {
+      items: {
+        include: {
+          product: { include: { images: { take: 1 } } }
+        }
+      },
+      shippingAddress: true,
+    }
+  });
+
+  await sendOrderConfirmation(order);
+}, { maxAttempts: 8, backoffMs: 60 * 1000 });
@@ -0,0 +1,237 @@
+import os from 'os';
+import { Job, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+type Tx = Prisma.TransactionClient;
+
+export interface JobContext {
+  jobId: string | null; // Null when run synchronously
+  attempt: number;
+}
+
+export interface JobDefinition<T = any> {
+  name: string;
+  handler: (payload: T, context: JobContext) => Promise<unknown>;
+  maxAttempts: number;
+  backoffMs: number; // Delay before the first retry, doubled each time
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  delayMs?: number;
+  maxAttempts?: number;
+  uniqueKey?: string;
+  tx?: Tx; // Enqueue as part of the caller's transaction
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// A job RUNNING this long is assumed to belong to a crashed worker and is
+// put back in the queue
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+const registry = new Map<string, JobDefinition>();
+
+// Jobs run inline in the calling request instead of being queued. Meant
+// for tests, which can then assert on a job's effects straight away.
+let syncMode = process.env.JOBS_SYNC === 'true';
+
+export const setJobsSyncMode = (enabled: boolean) => {
+  syncMode = enabled;
+};
+
+export const getJobBackoff = (definition: Pick<JobDefinition, 'backoffMs'>, attempts: number) =>
+  Math.min(definition.backoffMs * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+// ===================
+// REGISTER
+// ===================
+export const defineJob = <T = Record<string, never>>(
+  name: string,
+  handler: JobDefinition<T>['handler'],
+  options: { maxAttempts?: number; backoffMs?: number } = {}
+) => {
+  if (registry.has(name)) {
+    throw new Error(`Job ${name} is already defined`);
+  }
+
+  registry.set(name, {
+    name,
+    handler,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    backoffMs: options.backoffMs ?? DEFAULT_BACKOFF_MS,
+  });
+};
+
+export const getJobDefinition = (name: string) => registry.get(name);
+
+export const getJobNames = () => [...registry.keys()];
+
+// ===================
+// ENQUEUE
+// ===================
+// Returns the queued job, or null when a job with the same uniqueKey
+// already exists. In sync mode the handler runs before this returns and
+// its errors are thrown to the caller.
+export const enqueueJob = async (
+  name: string,
+  payload: Prisma.InputJsonValue = {},
+  options: EnqueueOptions = {}
+): Promise<Job | null> => {
+  const definition = registry.get(name);
+  if (!definition) {
+    throw new Error(`No job named ${name} is defined`);
+  }
+
+  if (syncMode) {
+    await definition.handler(payload, { jobId: null, attempt: 1 });
+    return null;
+  }
+
+  const client = options.tx || prisma;
+  const runAt = options.runAt || new Date(Date.now() + (options.delayMs || 0));
+
+  try {
+    return await client.job.create({
+      data: {
+        name,
+        payload,
+        runAt,
+        maxAttempts: options.maxAttempts ?? definition.maxAttempts,
+        uniqueKey: options.uniqueKey,
+      }
+    });
+  } catch (error: any) {
+    if (error.code === 'P2002' && options.uniqueKey) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+// ===================
+// RUN
+// ===================
+
+// Claims due jobs for this worker. SKIP LOCKED makes concurrent workers
+// pick different rows instead of waiting on each other.
+const claimJobs = (limit: number) =>
+  prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING',
+        "attempts" = "attempts" + 1,
+        "lockedAt" = NOW(),
+        "lockedBy" = ${WORKER_ID},
+        "updatedAt" = NOW()
+    WHERE "id" IN (
+      SELECT "id" FROM "Job"
+      WHERE "status" = 'PENDING' AND "runAt" <= NOW()
+      ORDER BY "runAt"
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+// Jobs left RUNNING by a crashed worker. The attempt they used counts, so
+// a job that crashes the worker every time still ends up DEAD.
+const requeueStaleJobs = () =>
+  prisma.job.updateMany({
+    where: { status: 'RUNNING', lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT_MS) } },
+    data: { status: 'PENDING', lockedAt: null, lockedBy: null, lastError: 'Worker stopped while running the job' },
+  });
+
+const executeJob = async (job: Job) => {
+  const definition = registry.get(job.name);
+
+  try {
+    if (!definition) {
+      throw new Error(`No job named ${job.name} is defined`);
+    }
+
+    await definition.handler(job.payload, { jobId: job.id, attempt: job.attempts });
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { status: 'COMPLETED', completedAt: new Date(), lockedAt: null, lockedBy: null },
+    });
+  } catch (error: any) {
+    const dead = !definition || job.attempts >= job.maxAttempts;
+    console.error(`Job ${job.name} (${job.id}) failed on attempt ${job.attempts}:`, error);
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: dead ? 'DEAD' : 'PENDING',
+        lastError: error?.message || String(error),
+        lockedAt: null,
+        lockedBy: null,
+        ...(dead
+          ? { failedAt: new Date() }
+          : { runAt: new Date(Date.now() + getJobBackoff(definition!, job.attempts)) }),
+      },
+    });
+  }
+};
+
+// Runs due jobs one at a time. Returns how many were claimed.
+export const runDueJobs = async (limit = 10) => {
+  await requeueStaleJobs();
+
+  const jobs = await claimJobs(limit);
+  for (const job of jobs) {
+    await executeJob(job);
+  }
+
+  return jobs.length;
+};
+
+// Runs every due job until the queue is empty, e.g. at the end of a test
+export const drainJobs = async () => {
+  let total = 0;
+  let claimed: number;
+  do {
+    claimed = await runDueJobs();
+    total += claimed;
+  } while (claimed > 0);
+  return total;
+};
+
+// ===================
+// WORKER
+// ===================
+// Polls the queue. When a batch came back full there is probably more
+// waiting, so the next poll happens straight away. `onTick` lets the
+// scheduler enqueue recurring jobs on the same loop.
+export const startJobWorker = (options: { pollMs?: number; batchSize?: number; onTick?: () => Promise<unknown> } = {}) => {
+  const pollMs = options.pollMs ?? 5000;
+  const batchSize = options.batchSize ?? 10;
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const tick = async () => {
+    let claimed = 0;
+    try {
+      await options.onTick?.();
+      claimed = await runDueJobs(batchSize);
+    } catch (error) {
+      console.error('Job worker tick failed:', error);
+    }
+
+    if (!stopped) {
+      timer = setTimeout(tick, claimed >= batchSize ? 0 : pollMs);
+    }
+  };
+
+  timer = setTimeout(tick, 0);
+  console.log(`Job worker ${WORKER_ID} started`);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
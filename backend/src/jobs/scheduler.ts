@@ -0,0 +1,68 @@
+import { prisma } from '../lib/prisma';
+import { enqueueJob, startJobWorker } from './queue';
+import { getNextCronDate } from '../utils/cron';
+import './definitions';
+
+interface ScheduledJob {
+  name: string;
+  cron: string; // Default; the admin can change it per schedule
+}
+
+const schedules: ScheduledJob[] = [
+  { name: 'retry-stripe-webhooks', cron: '* * * * *' },          // Every minute
+  { name: 'release-expired-reservations', cron: '*/5 * * * *' }, // Every 5 minutes
+  { name: 'send-cart-recovery-emails', cron: '*/15 * * * *' },   // Every 15 minutes
+  { name: 'cancel-stale-orders', cron: '*/10 * * * *' },         // Every 10 minutes
+  { name: 'purge-expired-sessions', cron: '0 * * * *' },         // Hourly
+  { name: 'purge-completed-jobs', cron: '0 3 * * *' },           // Daily at 03:00 UTC
+  { name: 'delete-scheduled-accounts', cron: '0 4 * * *' },      // Daily at 04:00 UTC
+];
+
+// Creates missing schedule rows. Existing rows are left alone so changes
+// made by the admin survive restarts.
+const syncSchedules = async () => {
+  for (const schedule of schedules) {
+    await prisma.jobSchedule.upsert({
+      where: { name: schedule.name },
+      update: {},
+      create: {
+        name: schedule.name,
+        cron: schedule.cron,
+        nextRunAt: getNextCronDate(schedule.cron),
+      }
+    });
+  }
+};
+
+// Enqueues a job for each schedule that is due. Moving nextRunAt is a
+// conditional update, so with several processes only one enqueues each run.
+// A run is skipped while the previous one is still queued or running.
+export const enqueueDueSchedules = async () => {
+  const now = new Date();
+  const due = await prisma.jobSchedule.findMany({
+    where: { isActive: true, nextRunAt: { lte: now } }
+  });
+
+  for (const schedule of due) {
+    const claimed = await prisma.jobSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt: getNextCronDate(schedule.cron, now), lastRunAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    const previous = await prisma.job.findFirst({
+      where: { name: schedule.name, status: { in: ['PENDING', 'RUNNING'] } }
+    });
+    if (previous) continue;
+
+    await enqueueJob(schedule.name, {}, {
+      uniqueKey: `schedule:${schedule.name}:${schedule.nextRunAt.toISOString()}`,
+    });
+  }
+};
+
+// Starts the job worker with the recurring schedules on its loop
+export const startScheduler = async () => {
+  await syncSchedules();
+  return startJobWorker({ onTick: enqueueDueSchedules });
+};
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../lib/prisma';
+import { ACCESS_TOKEN_COOKIE, touchSession } from '../services/sessions';
+import { Permission, hasPermission } from '../services/permissions';
+import { hasValidCsrfToken, sendCsrfError } from './csrf';
 
 // Extend Express Request type
 declare global {
@@ -8,6 +11,10 @@ declare global {
     interface Request {
       userId?: string;
       userRole?: string;
+      emailVerified?: boolean;
+      sessionFamilyId?: string; // Identifies the device in the session list
+      twoFactorEnabled?: boolean;
+      twoFactorVerified?: boolean; // This login passed the 2FA challenge
     }
   }
 }
@@ -21,14 +28,12 @@ export const authenticate = async (
   next: NextFunction
 ) => {
   try {
-    const authHeader = req.headers.authorization;
+    const token = req.cookies?.[ACCESS_TOKEN_COOKIE];
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    const token = authHeader.split(' ')[1];
-
     // Verify token
     let decoded: any;
     try {
@@ -42,6 +47,7 @@ export const authenticate = async (
       where: {
         userId: decoded.userId,
         token,
+        revokedAt: null,
         expiresAt: { gt: new Date() }
       },
       include: { user: true }
@@ -51,9 +57,19 @@ export const authenticate = async (
       return res.status(401).json({ error: 'Session expired' });
     }
 
+    if (!hasValidCsrfToken(req)) {
+      return sendCsrfError(res);
+    }
+
     // Attach user info to request
     req.userId = session.userId;
     req.userRole = session.user.role;
+    req.emailVerified = session.user.emailVerified;
+    req.sessionFamilyId = session.familyId;
+    req.twoFactorEnabled = session.user.twoFactorEnabled;
+    req.twoFactorVerified = session.twoFactorVerified;
+
+    touchSession(session, req).catch((error) => console.error('Failed to update session:', error));
 
     next();
   } catch (error) {
@@ -70,34 +86,46 @@ export const optionalAuth = async (
   next: NextFunction
 ) => {
   try {
-    const authHeader = req.headers.authorization;
+    const token = req.cookies?.[ACCESS_TOKEN_COOKIE];
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
       return next(); // Continue without auth
     }
 
-    const token = authHeader.split(' ')[1];
-
+    let session = null;
     try {
       const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-      
-      const session = await prisma.session.findFirst({
+
+      session = await prisma.session.findFirst({
         where: {
           userId: decoded.userId,
           token,
+          revokedAt: null,
           expiresAt: { gt: new Date() }
         },
         include: { user: true }
       });
-
-      if (session) {
-        req.userId = session.userId;
-        req.userRole = session.user.role;
-      }
     } catch {
       // Invalid token, continue as guest
     }
 
+    if (session) {
+      // Rejected rather than treated as a guest, which would e.g. place a
+      // forged order as a guest checkout
+      if (!hasValidCsrfToken(req)) {
+        return sendCsrfError(res);
+      }
+
+      req.userId = session.userId;
+      req.userRole = session.user.role;
+      req.emailVerified = session.user.emailVerified;
+      req.sessionFamilyId = session.familyId;
+      req.twoFactorEnabled = session.user.twoFactorEnabled;
+      req.twoFactorVerified = session.twoFactorVerified;
+
+      touchSession(session, req).catch((error) => console.error('Failed to update session:', error));
+    }
+
     next();
   } catch (error) {
     next(error);
@@ -105,29 +133,70 @@ export const optionalAuth = async (
 };
 
 // ===================
-// ADMIN ONLY
+// VERIFIED EMAIL (after authenticate)
 // ===================
-export const isAdmin = (
+// The code lets the frontend tell this apart from other 403s and offer to
+// resend the verification email
+export const requireVerifiedEmail = (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  if (req.userRole !== 'ADMIN' && req.userRole !== 'SUPER_ADMIN') {
-    return res.status(403).json({ error: 'Admin access required' });
+  if (!req.emailVerified) {
+    return res.status(403).json({
+      error: 'Please verify your email address first',
+      code: 'EMAIL_NOT_VERIFIED',
+    });
   }
   next();
 };
 
 // ===================
-// SUPER ADMIN ONLY
+// TWO-FACTOR (after authenticate)
 // ===================
-export const isSuperAdmin = (
+// TWO_FACTOR_SETUP_REQUIRED sends the user to the account page to set it
+// up; TWO_FACTOR_REQUIRED means this login predates it and has to sign in
+// again
+export const requireTwoFactor = (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  if (req.userRole !== 'SUPER_ADMIN') {
-    return res.status(403).json({ error: 'Super admin access required' });
+  if (!req.twoFactorEnabled) {
+    return res.status(403).json({
+      error: 'Two-factor authentication must be enabled for this account',
+      code: 'TWO_FACTOR_SETUP_REQUIRED',
+    });
+  }
+  if (!req.twoFactorVerified) {
+    return res.status(403).json({
+      error: 'Please sign in again with your two-factor code',
+      code: 'TWO_FACTOR_REQUIRED',
+    });
   }
   next();
 };
+
+// ===================
+// PERMISSIONS (after authenticate)
+// ===================
+// Staff access always needs two-factor authentication as well
+export const requirePermission = (permission: Permission) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!hasPermission(req.userRole, permission)) {
+    return res.status(403).json({
+      error: 'You do not have permission to do this',
+      code: 'PERMISSION_DENIED',
+      permission,
+    });
+  }
+  requireTwoFactor(req, res, next);
+};
+
+// For routes that serve customers and staff alike, e.g. viewing an order:
+// whether this request may act on other users' data
+export const canActAsStaff = (req: Request, permission: Permission) =>
+  hasPermission(req.userRole, permission) && !!req.twoFactorVerified;
@@ -1,16 +1,25 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
+import { z } from 'zod';
 import { prisma } from '../lib/prisma';
-import { authenticate, isAdmin } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { processStripeEvent } from '../services/stripeWebhooks';
+import { RESERVATION_TTL_MS } from '../services/inventory';
+import { enqueueJob, getJobDefinition } from '../jobs/queue';
+import { getNextCronDate, isValidCron } from '../utils/cron';
+import { ROLE_PERMISSIONS } from '../services/permissions';
+import { AuditFilters, auditLogsToCsv, buildAuditWhere, recordAudit } from '../services/audit';
+import { cancelAccountDeletion, deleteAccount, findDeletionBlocker } from '../services/accountDeletion';
 
 const router = Router();
 
-// All routes require admin authentication
-router.use(authenticate, isAdmin);
+// All routes require a staff login; each one checks its own permission
+router.use(authenticate);
 
 // ===================
 // DASHBOARD STATS
 // ===================
-router.get('/dashboard', async (req, res, next) => {
+router.get('/dashboard', requirePermission('reports:read'), async (req, res, next) => {
   try {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -120,6 +129,20 @@ router.get('/dashboard', async (req, res, next) => {
       }),
     ]);
 
+    // Abandoned cart reminders and the paid orders that followed them
+    const [monthRemindersSent, monthRecovered, totalRecovered] = await Promise.all([
+      prisma.cartRecovery.count({ where: { sentAt: { gte: thisMonth } } }),
+      prisma.cartRecovery.aggregate({
+        where: { status: 'RECOVERED', recoveredAt: { gte: thisMonth } },
+        _count: true,
+        _sum: { recoveredAmount: true }
+      }),
+      prisma.cartRecovery.aggregate({
+        where: { status: 'RECOVERED' },
+        _sum: { recoveredAmount: true }
+      }),
+    ]);
+
     // Get product details for top products
     const topProductIds = topProducts.map(p => p.productId);
     const topProductDetails = await prisma.product.findMany({
@@ -151,6 +174,12 @@ router.get('/dashboard', async (req, res, next) => {
         lowStockProducts,
         pendingOrders,
       },
+      cartRecovery: {
+        monthRemindersSent,
+        monthRecoveredOrders: monthRecovered._count,
+        monthRecoveredRevenue: Number(monthRecovered._sum.recoveredAmount) || 0,
+        totalRecoveredRevenue: Number(totalRecovered._sum.recoveredAmount) || 0,
+      },
       recentOrders,
       topProducts: topProducts.map(tp => ({
         ...topProductDetails.find(p => p.id === tp.productId),
@@ -165,7 +194,7 @@ router.get('/dashboard', async (req, res, next) => {
 // ===================
 // SALES CHART DATA
 // ===================
-router.get('/sales-chart', async (req, res, next) => {
+router.get('/sales-chart', requirePermission('reports:read'), async (req, res, next) => {
   try {
     const { period = '7d' } = req.query;
     
@@ -242,7 +271,7 @@ router.get('/sales-chart', async (req, res, next) => {
 // ===================
 // LOW STOCK PRODUCTS
 // ===================
-router.get('/low-stock', async (req, res, next) => {
+router.get('/low-stock', requirePermission('inventory:read'), async (req, res, next) => {
   try {
     const products = await prisma.product.findMany({
       where: {
@@ -266,7 +295,7 @@ router.get('/low-stock', async (req, res, next) => {
 // ===================
 // CUSTOMERS LIST
 // ===================
-router.get('/customers', async (req, res, next) => {
+router.get('/customers', requirePermission('customers:read'), async (req, res, next) => {
   try {
     const { page = '1', limit = '20', search } = req.query;
     const pageNum = parseInt(page as string);
@@ -295,6 +324,9 @@ router.get('/customers', async (req, res, next) => {
           lastName: true,
           phone: true,
           createdAt: true,
+          failedLoginAttempts: true,
+          lockedUntil: true,
+          deletionScheduledFor: true,
           _count: { select: { orders: true } }
         }
       }),
@@ -329,13 +361,174 @@ router.get('/customers', async (req, res, next) => {
   }
 });
 
+// ===================
+// LOCKED ACCOUNTS
+// ===================
+// Accounts locked by failed sign-ins, any role. ?all=true also lists ones
+// that are failing but not (or no longer) locked.
+router.get('/locked-accounts', requirePermission('customers:read'), async (req, res, next) => {
+  try {
+    const now = new Date();
+
+    const accounts = await prisma.user.findMany({
+      where: req.query.all === 'true'
+        ? { failedLoginAttempts: { gt: 0 } }
+        : { lockedUntil: { gt: now } },
+      orderBy: { lastFailedLoginAt: 'desc' },
+      take: 100,
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        failedLoginAttempts: true,
+        lastFailedLoginAt: true,
+        lockedUntil: true,
+      }
+    });
+
+    res.json({
+      accounts: accounts.map(account => ({
+        ...account,
+        locked: !!account.lockedUntil && account.lockedUntil > now,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/locked-accounts/:id/unlock', requirePermission('customers:write'), async (req, res, next) => {
+  try {
+    const user = await prisma.user.update({
+      where: { id: req.params.id },
+      data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+      select: { id: true, email: true },
+    });
+
+    await recordAudit(req, { action: 'user.unlock', entityType: 'User', entityId: user.id });
+
+    res.json({ message: `${user.email} unlocked`, user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// ACCOUNT DELETIONS
+// ===================
+// Customers who asked for their account to be deleted, soonest first, with
+// what (if anything) is holding the deletion up
+router.get('/deletion-requests', requirePermission('customers:read'), async (req, res, next) => {
+  try {
+    const users = await prisma.user.findMany({
+      where: { deletionScheduledFor: { not: null } },
+      orderBy: { deletionScheduledFor: 'asc' },
+      take: 100,
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        deletionRequestedAt: true,
+        deletionScheduledFor: true,
+      }
+    });
+
+    const requests = await Promise.all(
+      users.map(async (user) => ({ ...user, blockedBy: await findDeletionBlocker(user) }))
+    );
+
+    res.json({ requests });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/deletion-requests/:id/cancel', requirePermission('customers:write'), async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, deletionScheduledFor: true },
+    });
+
+    if (!user?.deletionScheduledFor) {
+      return res.status(404).json({ error: 'Deletion request not found' });
+    }
+
+    await cancelAccountDeletion(user.id);
+
+    await recordAudit(req, {
+      action: 'user.deletion_cancel',
+      entityType: 'User',
+      entityId: user.id,
+      before: { deletionScheduledFor: user.deletionScheduledFor },
+      after: { deletionScheduledFor: null },
+    });
+
+    res.json({ message: 'Account deletion cancelled' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Deletes a customer's account now, without the grace period: a deletion
+// request that came in by email, or one that shouldn't wait. Orders are
+// anonymized, not removed.
+router.delete('/customers/:id', requirePermission('customers:write'), async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    await deleteAccount(user.id);
+
+    // Nothing personal in the entry, the account is meant to be gone
+    await recordAudit(req, { action: 'user.delete', entityType: 'User', entityId: user.id });
+
+    res.json({ message: 'Account deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // ===================
 // DISCOUNT CODES
 // ===================
-router.get('/discounts', async (req, res, next) => {
+const dateString = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+const discountSchema = z.object({
+  code: z.string().trim().min(1).max(50),
+  type: z.enum(['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING']),
+  value: z.number().min(0),
+  minOrderAmount: z.number().min(0).optional().nullable(),
+  maxUses: z.number().int().positive().optional().nullable(),
+  maxUsesPerCustomer: z.number().int().positive().optional().nullable(),
+  productIds: z.array(z.string()).optional(),
+  categoryIds: z.array(z.string()).optional(),
+  tagIds: z.array(z.string()).optional(),
+  excludeSaleItems: z.boolean().optional(),
+  isCombinable: z.boolean().optional(),
+  startsAt: dateString.optional().nullable(),
+  expiresAt: dateString.optional().nullable(),
+  isActive: z.boolean().optional(),
+});
+
+// The code itself can't be changed once customers may have it
+const updateDiscountSchema = discountSchema.omit({ code: true }).partial();
+
+router.get('/discounts', requirePermission('discounts:read'), async (req, res, next) => {
   try {
     const discounts = await prisma.discountCode.findMany({
-      orderBy: { createdAt: 'desc' }
+      orderBy: { createdAt: 'desc' },
+      include: { _count: { select: { redemptions: true } } }
     });
     res.json({ discounts });
   } catch (error) {
@@ -343,34 +536,81 @@ router.get('/discounts', async (req, res, next) => {
   }
 });
 
-router.post('/discounts', async (req, res, next) => {
+router.post('/discounts', requirePermission('discounts:write'), validate(discountSchema), async (req, res, next) => {
   try {
-    const data = req.body;
+    const data: z.infer<typeof discountSchema> = req.body;
     
     const discount = await prisma.discountCode.create({
       data: {
-        code: data.code.toUpperCase(),
+        code: data.code.trim().toUpperCase(),
         type: data.type,
         value: data.value,
         minOrderAmount: data.minOrderAmount,
         maxUses: data.maxUses,
+        maxUsesPerCustomer: data.maxUsesPerCustomer,
+        productIds: data.productIds || [],
+        categoryIds: data.categoryIds || [],
+        tagIds: data.tagIds || [],
+        excludeSaleItems: data.excludeSaleItems ?? false,
+        isCombinable: data.isCombinable ?? false,
         startsAt: data.startsAt ? new Date(data.startsAt) : null,
         expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
         isActive: data.isActive ?? true,
       }
     });
 
+    await recordAudit(req, { action: 'discount.create', entityType: 'DiscountCode', entityId: discount.id, after: discount });
+
     res.status(201).json({ discount });
   } catch (error) {
     next(error);
   }
 });
 
-router.delete('/discounts/:id', async (req, res, next) => {
+router.put('/discounts/:id', requirePermission('discounts:write'), validate(updateDiscountSchema), async (req, res, next) => {
   try {
-    await prisma.discountCode.delete({
+    const data: z.infer<typeof updateDiscountSchema> = req.body;
+
+    const before = await prisma.discountCode.findUnique({ where: { id: req.params.id } });
+    if (!before) {
+      return res.status(404).json({ error: 'Discount code not found' });
+    }
+
+    const discount = await prisma.discountCode.update({
+      where: { id: req.params.id },
+      data: {
+        type: data.type,
+        value: data.value,
+        minOrderAmount: data.minOrderAmount,
+        maxUses: data.maxUses,
+        maxUsesPerCustomer: data.maxUsesPerCustomer,
+        productIds: data.productIds,
+        categoryIds: data.categoryIds,
+        tagIds: data.tagIds,
+        excludeSaleItems: data.excludeSaleItems,
+        isCombinable: data.isCombinable,
+        ...(data.startsAt !== undefined && { startsAt: data.startsAt ? new Date(data.startsAt) : null }),
+        ...(data.expiresAt !== undefined && { expiresAt: data.expiresAt ? new Date(data.expiresAt) : null }),
+        isActive: data.isActive,
+      }
+    });
+
+    await recordAudit(req, { action: 'discount.update', entityType: 'DiscountCode', entityId: discount.id, before, after: discount });
+
+    res.json({ discount });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/discounts/:id', requirePermission('discounts:write'), async (req, res, next) => {
+  try {
+    const discount = await prisma.discountCode.delete({
       where: { id: req.params.id }
     });
+
+    await recordAudit(req, { action: 'discount.delete', entityType: 'DiscountCode', entityId: discount.id, before: discount });
+
     res.json({ message: 'Discount code deleted' });
   } catch (error) {
     next(error);
@@ -380,7 +620,7 @@ router.delete('/discounts/:id', async (req, res, next) => {
 // ===================
 // REVIEWS MODERATION
 // ===================
-router.get('/reviews/pending', async (req, res, next) => {
+router.get('/reviews/pending', requirePermission('reviews:moderate'), async (req, res, next) => {
   try {
     const reviews = await prisma.review.findMany({
       where: { isApproved: false },
@@ -397,27 +637,787 @@ router.get('/reviews/pending', async (req, res, next) => {
   }
 });
 
-router.patch('/reviews/:id/approve', async (req, res, next) => {
+router.patch('/reviews/:id/approve', requirePermission('reviews:moderate'), async (req, res, next) => {
   try {
     const review = await prisma.review.update({
       where: { id: req.params.id },
       data: { isApproved: true }
     });
+
+    await recordAudit(req, { action: 'review.approve', entityType: 'Review', entityId: review.id });
+
     res.json({ review });
   } catch (error) {
     next(error);
   }
 });
 
-router.delete('/reviews/:id', async (req, res, next) => {
+router.delete('/reviews/:id', requirePermission('reviews:moderate'), async (req, res, next) => {
   try {
-    await prisma.review.delete({
+    const review = await prisma.review.delete({
       where: { id: req.params.id }
     });
+
+    await recordAudit(req, { action: 'review.delete', entityType: 'Review', entityId: review.id, before: review });
+
     res.json({ message: 'Review deleted' });
   } catch (error) {
     next(error);
   }
 });
 
+// ===================
+// STRIPE WEBHOOK EVENTS
+// ===================
+router.get('/webhooks', requirePermission('system:manage'), async (req, res, next) => {
+  try {
+    const { page = '1', limit = '20', status, type } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+
+    const where: any = {};
+    if (status) where.status = status;
+    if (type) where.type = type;
+
+    const [events, total] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          type: true,
+          status: true,
+          attempts: true,
+          lastError: true,
+          nextRetryAt: true,
+          processedAt: true,
+          createdAt: true,
+        }
+      }),
+      prisma.webhookEvent.count({ where })
+    ]);
+
+    res.json({
+      events,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/webhooks/:id', requirePermission('system:manage'), async (req, res, next) => {
+  try {
+    const event = await prisma.webhookEvent.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!event) {
+      return res.status(404).json({ error: 'Webhook event not found' });
+    }
+
+    res.json({ event });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/webhooks/:id/replay', requirePermission('system:manage'), async (req, res, next) => {
+  try {
+    const existing = await prisma.webhookEvent.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook event not found' });
+    }
+
+    if (existing.status === 'PROCESSING') {
+      return res.status(409).json({ error: 'Event is currently being processed' });
+    }
+
+    const event = await processStripeEvent(existing.id, { force: true });
+
+    await recordAudit(req, { action: 'webhook.replay', entityType: 'WebhookEvent', entityId: existing.id });
+
+    res.json({ event });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// BACKGROUND JOBS
+// ===================
+// Defaults to the dead letters: jobs that used up their attempts
+router.get('/jobs', requirePermission('system:manage'), async (req, res, next) => {
+  try {
+    const { page = '1', limit = '20', status = 'DEAD', name } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+
+    const where: any = {};
+    if (status !== 'ALL') where.status = status;
+    if (name) where.name = name;
+
+    const [jobs, total, counts] = await Promise.all([
+      prisma.job.findMany({
+        where,
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+        orderBy: { updatedAt: 'desc' },
+      }),
+      prisma.job.count({ where }),
+      prisma.job.groupBy({
+        by: ['status'],
+        _count: true,
+      }),
+    ]);
+
+    res.json({
+      jobs,
+      counts: Object.fromEntries(counts.map(c => [c.status, c._count])),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/jobs/schedules', requirePermission('system:manage'), async (req, res, next) => {
+  try {
+    const schedules = await prisma.jobSchedule.findMany({
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({ schedules });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const scheduleSchema = z.object({
+  cron: z.string().refine(isValidCron, 'Invalid cron expression').optional(),
+  isActive: z.boolean().optional(),
+});
+
+router.put('/jobs/schedules/:name', requirePermission('system:manage'), validate(scheduleSchema), async (req, res, next) => {
+  try {
+    const { cron, isActive } = req.body;
+
+    const existing = await prisma.jobSchedule.findUnique({
+      where: { name: req.params.name }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    // Recompute from now so a new expression or a resumed schedule doesn't
+    // fire for runs it missed
+    const schedule = await prisma.jobSchedule.update({
+      where: { id: existing.id },
+      data: {
+        cron,
+        isActive,
+        ...((cron || isActive) && { nextRunAt: getNextCronDate(cron || existing.cron) }),
+      }
+    });
+
+    await recordAudit(req, {
+      action: 'job_schedule.update',
+      entityType: 'JobSchedule',
+      entityId: schedule.id,
+      before: { cron: existing.cron, isActive: existing.isActive },
+      after: { cron: schedule.cron, isActive: schedule.isActive },
+    });
+
+    res.json({ schedule });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Queue a scheduled job now, outside its schedule
+router.post('/jobs/schedules/:name/run', requirePermission('system:manage'), async (req, res, next) => {
+  try {
+    const schedule = await prisma.jobSchedule.findUnique({
+      where: { name: req.params.name }
+    });
+
+    if (!schedule || !getJobDefinition(schedule.name)) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    const job = await enqueueJob(schedule.name);
+
+    await recordAudit(req, { action: 'job_schedule.run', entityType: 'JobSchedule', entityId: schedule.id, after: { jobId: job?.id ?? null } });
+
+    res.status(201).json({ job });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/jobs/:id', requirePermission('system:manage'), async (req, res, next) => {
+  try {
+    const job = await prisma.job.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({ job });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Gives a dead job a fresh set of attempts
+router.post('/jobs/:id/retry', requirePermission('system:manage'), async (req, res, next) => {
+  try {
+    const retried = await prisma.job.updateMany({
+      where: { id: req.params.id, status: 'DEAD' },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        runAt: new Date(),
+        failedAt: null,
+      }
+    });
+
+    if (retried.count === 0) {
+      return res.status(409).json({ error: 'Only dead jobs can be retried' });
+    }
+
+    const job = await prisma.job.findUniqueOrThrow({ where: { id: req.params.id } });
+
+    await recordAudit(req, { action: 'job.retry', entityType: 'Job', entityId: job.id });
+
+    res.json({ job });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/jobs/:id', requirePermission('system:manage'), async (req, res, next) => {
+  try {
+    const deleted = await prisma.job.deleteMany({
+      where: { id: req.params.id, status: { not: 'RUNNING' } }
+    });
+
+    if (deleted.count === 0) {
+      return res.status(409).json({ error: 'Job not found or currently running' });
+    }
+
+    await recordAudit(req, { action: 'job.delete', entityType: 'Job', entityId: req.params.id });
+
+    res.json({ message: 'Job deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// TAX CLASSES & RATES
+// ===================
+const taxClassSchema = z.object({
+  code: z.string().min(1).regex(/^[a-z0-9-_]+$/, 'Use lowercase letters, numbers and dashes'),
+  name: z.string().min(1),
+  description: z.string().optional().nullable(),
+  isDefault: z.boolean().optional(),
+});
+
+const taxRateSchema = z.object({
+  taxClassId: z.string().min(1),
+  zoneId: z.string().optional().nullable(),
+  name: z.string().min(1),
+  rate: z.number().min(0).max(100),
+});
+
+router.get('/tax/classes', requirePermission('settings:write'), async (req, res, next) => {
+  try {
+    const taxClasses = await prisma.taxClass.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: {
+        rates: { include: { zone: { select: { name: true } } } },
+        _count: { select: { categories: true } },
+      }
+    });
+    res.json({ taxClasses });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/tax/classes', requirePermission('settings:write'), validate(taxClassSchema), async (req, res, next) => {
+  try {
+    const data = req.body;
+
+    const taxClass = await prisma.$transaction(async (tx) => {
+      // Only one class can be the default
+      if (data.isDefault) {
+        await tx.taxClass.updateMany({ data: { isDefault: false } });
+      }
+      return tx.taxClass.create({
+        data: {
+          code: data.code,
+          name: data.name,
+          description: data.description,
+          isDefault: data.isDefault ?? false,
+        }
+      });
+    });
+
+    await recordAudit(req, { action: 'tax_class.create', entityType: 'TaxClass', entityId: taxClass.id, after: taxClass });
+
+    res.status(201).json({ taxClass });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/tax/classes/:id', requirePermission('settings:write'), validate(taxClassSchema.partial()), async (req, res, next) => {
+  try {
+    const data = req.body;
+
+    const before = await prisma.taxClass.findUnique({ where: { id: req.params.id } });
+
+    const taxClass = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.taxClass.updateMany({
+          where: { id: { not: req.params.id } },
+          data: { isDefault: false }
+        });
+      }
+      return tx.taxClass.update({
+        where: { id: req.params.id },
+        data: {
+          code: data.code,
+          name: data.name,
+          description: data.description,
+          isDefault: data.isDefault,
+        }
+      });
+    });
+
+    await recordAudit(req, { action: 'tax_class.update', entityType: 'TaxClass', entityId: taxClass.id, before, after: taxClass });
+
+    res.json({ taxClass });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/tax/classes/:id', requirePermission('settings:write'), async (req, res, next) => {
+  try {
+    // Categories using the class fall back to the default class
+    const taxClass = await prisma.taxClass.delete({
+      where: { id: req.params.id }
+    });
+
+    await recordAudit(req, { action: 'tax_class.delete', entityType: 'TaxClass', entityId: taxClass.id, before: taxClass });
+
+    res.json({ message: 'Tax class deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/tax/rates', requirePermission('settings:write'), validate(taxRateSchema), async (req, res, next) => {
+  try {
+    const data = req.body;
+
+    const taxRate = await prisma.taxRate.create({
+      data: {
+        taxClassId: data.taxClassId,
+        zoneId: data.zoneId || null,
+        name: data.name,
+        rate: data.rate,
+      }
+    });
+
+    await recordAudit(req, { action: 'tax_rate.create', entityType: 'TaxRate', entityId: taxRate.id, after: taxRate });
+
+    res.status(201).json({ taxRate });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/tax/rates/:id', requirePermission('settings:write'), validate(taxRateSchema.partial()), async (req, res, next) => {
+  try {
+    const data = req.body;
+
+    const before = await prisma.taxRate.findUnique({ where: { id: req.params.id } });
+
+    const taxRate = await prisma.taxRate.update({
+      where: { id: req.params.id },
+      data: {
+        taxClassId: data.taxClassId,
+        zoneId: data.zoneId,
+        name: data.name,
+        rate: data.rate,
+      }
+    });
+
+    await recordAudit(req, { action: 'tax_rate.update', entityType: 'TaxRate', entityId: taxRate.id, before, after: taxRate });
+
+    res.json({ taxRate });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/tax/rates/:id', requirePermission('settings:write'), async (req, res, next) => {
+  try {
+    const taxRate = await prisma.taxRate.delete({
+      where: { id: req.params.id }
+    });
+
+    await recordAudit(req, { action: 'tax_rate.delete', entityType: 'TaxRate', entityId: taxRate.id, before: taxRate });
+
+    res.json({ message: 'Tax rate deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// STORE SETTINGS
+// ===================
+router.get('/settings', requirePermission('settings:write'), async (req, res, next) => {
+  try {
+    const settings = await prisma.setting.findMany({
+      orderBy: { key: 'asc' }
+    });
+    res.json({ settings });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const settingSchema = z.object({
+  value: z.any().refine((value) => value !== undefined, 'Value is required'),
+});
+
+router.put('/settings/:key', requirePermission('settings:write'), validate(settingSchema), async (req, res, next) => {
+  try {
+    const { key } = req.params;
+
+    if (key === 'tax_mode' && !['inclusive', 'exclusive'].includes(req.body.value)) {
+      return res.status(400).json({ error: 'tax_mode must be "inclusive" or "exclusive"' });
+    }
+
+    // Cancelling sooner would release stock while the customer is still paying
+    const minTimeout = RESERVATION_TTL_MS / 60000;
+    if (key === 'pending_order_timeout_minutes' && !(Number.isInteger(req.body.value) && req.body.value >= minTimeout)) {
+      return res.status(400).json({ error: `pending_order_timeout_minutes must be a whole number of at least ${minTimeout}` });
+    }
+
+    if (key === 'account_deletion_grace_days' && !(Number.isInteger(req.body.value) && req.body.value >= 0)) {
+      return res.status(400).json({ error: 'account_deletion_grace_days must be a whole number of days' });
+    }
+
+    const before = await prisma.setting.findUnique({ where: { key } });
+
+    const setting = await prisma.setting.upsert({
+      where: { key },
+      update: { value: req.body.value },
+      create: { key, value: req.body.value },
+    });
+
+    await recordAudit(req, {
+      action: 'setting.update',
+      entityType: 'Setting',
+      entityId: key,
+      before: before && { value: before.value },
+      after: { value: setting.value },
+    });
+
+    res.json({ setting });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// AUDIT LOG
+// ===================
+const auditDate = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+
+const auditQuerySchema = z.object({
+  actorId: z.string().optional(),
+  action: z.string().optional(),
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  from: auditDate.optional(),
+  to: auditDate.optional(),
+});
+
+// Newest first. Filters: actorId, action (prefix, e.g. "order."),
+// entityType, entityId, from/to (ISO dates).
+router.get('/audit', requirePermission('audit:read'), async (req, res, next) => {
+  try {
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid filters', details: parsed.error.errors });
+    }
+
+    const { page = '1', limit = '50' } = req.query;
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 50, 1), 200);
+    const where = buildAuditWhere(parsed.data as AuditFilters);
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    res.json({
+      logs,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const AUDIT_EXPORT_LIMIT = 10000;
+
+// Same filters as the list, as CSV (default) or JSON
+router.get('/audit/export', requirePermission('audit:read'), async (req, res, next) => {
+  try {
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid filters', details: parsed.error.errors });
+    }
+
+    const format = req.query.format === 'json' ? 'json' : 'csv';
+
+    const logs = await prisma.auditLog.findMany({
+      where: buildAuditWhere(parsed.data as AuditFilters),
+      orderBy: { createdAt: 'desc' },
+      take: AUDIT_EXPORT_LIMIT,
+    });
+
+    // Exports are themselves worth knowing about
+    await recordAudit(req, {
+      action: 'audit.export',
+      entityType: 'AuditLog',
+      after: { format, filters: parsed.data, rows: logs.length },
+    });
+
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'json') {
+      return res.json({ logs, truncated: logs.length === AUDIT_EXPORT_LIMIT });
+    }
+
+    res.type('text/csv').send(auditLogsToCsv(logs));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// STAFF
+// ===================
+const STAFF_ROLES = ['FULFILLER', 'CATALOG_EDITOR', 'SUPPORT_AGENT', 'ANALYST', 'ADMIN', 'SUPER_ADMIN'] as const;
+
+const staffSelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+  twoFactorEnabled: true,
+  createdAt: true,
+} as const;
+
+// Role changes that would leave the store without a super admin, or let
+// someone change their own access, are refused
+const checkRoleChange = async (req: Request, target: { id: string; role: string }, newRole: string) => {
+  if (target.id === req.userId) {
+    return 'You cannot change your own role';
+  }
+
+  if (target.role === 'SUPER_ADMIN' && newRole !== 'SUPER_ADMIN') {
+    const superAdmins = await prisma.user.count({ where: { role: 'SUPER_ADMIN' } });
+    if (superAdmins <= 1) {
+      return 'The last super admin cannot be removed';
+    }
+  }
+
+  return null;
+};
+
+router.get('/staff', requirePermission('staff:manage'), async (req, res, next) => {
+  try {
+    const staff = await prisma.user.findMany({
+      where: { role: { not: 'CUSTOMER' } },
+      orderBy: [{ role: 'asc' }, { email: 'asc' }],
+      select: staffSelect,
+    });
+
+    res.json({ staff });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// What each role is allowed to do, for the role picker
+router.get('/staff/roles', requirePermission('staff:manage'), (req, res) => {
+  res.json({
+    roles: STAFF_ROLES.map(role => ({ role, permissions: ROLE_PERMISSIONS[role] })),
+  });
+});
+
+const addStaffSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  role: z.enum(STAFF_ROLES),
+});
+
+// Staff sign up as customers first and are then given a role here. They
+// have to set up two-factor authentication before the role takes effect.
+router.post('/staff', requirePermission('staff:manage'), validate(addStaffSchema), async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { email: req.body.email.toLowerCase() },
+      select: { id: true, role: true, emailVerified: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'No account with this email. Ask them to sign up first.' });
+    }
+
+    if (user.role !== 'CUSTOMER') {
+      return res.status(400).json({ error: 'This user is already staff' });
+    }
+
+    if (!user.emailVerified) {
+      return res.status(400).json({ error: 'This user has not verified their email address yet' });
+    }
+
+    const staffMember = await prisma.user.update({
+      where: { id: user.id },
+      data: { role: req.body.role },
+      select: staffSelect,
+    });
+
+    await recordAudit(req, {
+      action: 'staff.add',
+      entityType: 'User',
+      entityId: user.id,
+      before: { role: user.role },
+      after: { role: staffMember.role },
+    });
+
+    res.status(201).json({ staffMember });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const updateStaffSchema = z.object({
+  role: z.enum(STAFF_ROLES),
+});
+
+router.patch('/staff/:id', requirePermission('staff:manage'), validate(updateStaffSchema), async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, role: true },
+    });
+
+    if (!user || user.role === 'CUSTOMER') {
+      return res.status(404).json({ error: 'Staff member not found' });
+    }
+
+    const refusal = await checkRoleChange(req, user, req.body.role);
+    if (refusal) {
+      return res.status(400).json({ error: refusal });
+    }
+
+    const staffMember = await prisma.user.update({
+      where: { id: user.id },
+      data: { role: req.body.role },
+      select: staffSelect,
+    });
+
+    await recordAudit(req, {
+      action: 'staff.update_role',
+      entityType: 'User',
+      entityId: user.id,
+      before: { role: user.role },
+      after: { role: staffMember.role },
+    });
+
+    res.json({ staffMember });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Turns a staff member back into a customer; their account stays
+router.delete('/staff/:id', requirePermission('staff:manage'), async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, role: true },
+    });
+
+    if (!user || user.role === 'CUSTOMER') {
+      return res.status(404).json({ error: 'Staff member not found' });
+    }
+
+    const refusal = await checkRoleChange(req, user, 'CUSTOMER');
+    if (refusal) {
+      return res.status(400).json({ error: refusal });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { role: 'CUSTOMER' },
+    });
+
+    await recordAudit(req, {
+      action: 'staff.remove',
+      entityType: 'User',
+      entityId: user.id,
+      before: { role: user.role },
+      after: { role: 'CUSTOMER' },
+    });
+
+    res.json({ message: 'Staff access removed' });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -1,10 +1,44 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma';
 import { authenticate } from '../middleware/auth';
 import { validate } from '../middleware/validate';
+import { csrfProtection } from '../middleware/csrf';
+import { sendEmailVerification, sendPasswordReset } from '../services/email';
+import { consumeUserToken, countRecentUserTokens, createUserToken } from '../services/userTokens';
+import {
+  ACCESS_TOKEN_COOKIE,
+  CSRF_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  SessionError,
+  clearAuthCookies,
+  clearTwoFactorChallenge,
+  listUserSessions,
+  markSessionFamilyTwoFactorVerified,
+  readTwoFactorChallenge,
+  revokeSessionFamilies,
+  rotateSession,
+  startSession,
+  startTwoFactorChallenge,
+} from '../services/sessions';
+import { ROLE_PERMISSIONS } from '../services/permissions';
+import {
+  LoginThrottleError,
+  assertLoginAllowed,
+  clearFailedLogins,
+  recordFailedLogin,
+} from '../services/loginAttempts';
+import {
+  TwoFactorError,
+  countRecoveryCodes,
+  createRecoveryCodes,
+  disableTwoFactor,
+  enableTwoFactor,
+  requiresTwoFactor,
+  startTwoFactorSetup,
+  verifyTwoFactorCode,
+} from '../services/twoFactor';
 
 const router = Router();
 
@@ -22,21 +56,29 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+// An authenticator app code or a recovery code
+const twoFactorCodeSchema = z.object({
+  code: z.string().min(1, 'Verification code is required'),
+});
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // The email says 1 hour
+const MAX_RESETS_PER_HOUR = 3;
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_VERIFICATION_EMAILS_PER_HOUR = 3;
+
 // Helper functions
-const generateTokens = (userId: string) => {
-  const accessToken = jwt.sign(
-    { userId },
-    process.env.JWT_SECRET!,
-    { expiresIn: '15m' }
-  );
-  
-  const refreshToken = jwt.sign(
-    { userId },
-    process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET!,
-    { expiresIn: '7d' }
-  );
-  
-  return { accessToken, refreshToken };
+const sendLoginThrottled = (res: Response, error: LoginThrottleError) => {
+  res.set('Retry-After', String(error.retryAfter));
+  return res.status(429).json({
+    error: error.message,
+    code: error.code,
+    retryAfter: error.retryAfter,
+  });
+};
+
+const sendVerificationEmail = async (user: { id: string; email: string; firstName: string }) => {
+  const token = await createUserToken(user.id, 'EMAIL_VERIFICATION', EMAIL_VERIFICATION_TTL_MS);
+  await sendEmailVerification(user.email, user.firstName, token);
 };
 
 // ===================
@@ -76,28 +118,22 @@ router.post('/register', validate(registerSchema), async (req, res, next) => {
         firstName: true,
         lastName: true,
         role: true,
+        emailVerified: true,
         createdAt: true,
       }
     });
 
-    // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user.id);
+    // A mail server hiccup shouldn't fail the signup; the user can ask for
+    // the email again
+    sendVerificationEmail(user).catch(() => {});
 
-    // Store refresh token in database
-    await prisma.session.create({
-      data: {
-        userId: user.id,
-        token: accessToken,
-        refreshToken,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-      }
-    });
+    // Tokens are set as httpOnly cookies
+    const csrfToken = await startSession(req, res, user.id);
 
     res.status(201).json({
       message: 'Registration successful',
       user,
-      accessToken,
-      refreshToken,
+      csrfToken,
     });
   } catch (error) {
     next(error);
@@ -116,46 +152,102 @@ router.post('/login', validate(loginSchema), async (req, res, next) => {
       where: { email: email.toLowerCase() }
     });
 
-    if (!user) {
+    // Accounts created through Google/Apple have no password until the
+    // user sets one with a password reset
+    if (!user || !user.password) {
       return res.status(401).json({ 
         error: 'Invalid email or password' 
       });
     }
 
+    // Locked or still waiting out the delay since the last failure
+    assertLoginAllowed(user);
+
     // Check password
     const isMatch = await bcrypt.compare(password, user.password);
     if (!isMatch) {
+      await recordFailedLogin(user.id);
       return res.status(401).json({ 
         error: 'Invalid email or password' 
       });
     }
 
-    // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user.id);
+    // The session is only created once the code checks out
+    if (user.twoFactorEnabled) {
+      startTwoFactorChallenge(res, user.id);
+      return res.json({ twoFactorRequired: true });
+    }
+
+    await clearFailedLogins(user.id);
 
-    // Store session
-    await prisma.session.create({
-      data: {
-        userId: user.id,
-        token: accessToken,
-        refreshToken,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-      }
+    // Store session and set cookies (signs out logins beyond the last 5)
+    const csrfToken = await startSession(req, res, user.id);
+
+    res.json({
+      message: 'Login successful',
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+        emailVerified: user.emailVerified,
+      },
+      csrfToken,
     });
+  } catch (error) {
+    if (error instanceof LoginThrottleError) {
+      return sendLoginThrottled(res, error);
+    }
+    next(error);
+  }
+});
+
+// ===================
+// LOGIN - TWO-FACTOR STEP
+// ===================
+// Second step after a password or social sign-in that answered with
+// twoFactorRequired
+router.post('/login/2fa', validate(twoFactorCodeSchema), async (req, res, next) => {
+  try {
+    const userId = readTwoFactorChallenge(req);
 
-    // Clean up old sessions (keep last 5)
-    const sessions = await prisma.session.findMany({
-      where: { userId: user.id },
-      orderBy: { createdAt: 'desc' },
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        emailVerified: true,
+        failedLoginAttempts: true,
+        lastFailedLoginAt: true,
+        lockedUntil: true,
+      }
     });
-    
-    if (sessions.length > 5) {
-      const sessionsToDelete = sessions.slice(5).map(s => s.id);
-      await prisma.session.deleteMany({
-        where: { id: { in: sessionsToDelete } }
-      });
+
+    if (!user) {
+      return res.status(401).json({ error: 'Sign-in expired, please start again' });
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    assertLoginAllowed(user);
+
+    let method: 'totp' | 'recovery';
+    try {
+      ({ method } = await verifyTwoFactorCode(userId, req.body.code));
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        await recordFailedLogin(userId);
+      }
+      throw error;
     }
 
+    await clearFailedLogins(userId);
+    clearTwoFactorChallenge(res);
+    const csrfToken = await startSession(req, res, user.id, { twoFactorVerified: true });
+
     res.json({
       message: 'Login successful',
       user: {
@@ -164,11 +256,19 @@ router.post('/login', validate(loginSchema), async (req, res, next) => {
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role,
+        emailVerified: user.emailVerified,
       },
-      accessToken,
-      refreshToken,
+      csrfToken,
+      // So the frontend can nudge the user once they run low
+      ...(method === 'recovery' && { recoveryCodesRemaining: await countRecoveryCodes(user.id) }),
     });
   } catch (error) {
+    if (error instanceof SessionError) {
+      clearTwoFactorChallenge(res);
+    }
+    if (error instanceof LoginThrottleError) {
+      return sendLoginThrottled(res, error);
+    }
     next(error);
   }
 });
@@ -176,72 +276,216 @@ router.post('/login', validate(loginSchema), async (req, res, next) => {
 // ===================
 // REFRESH TOKEN
 // ===================
+// No CSRF check: a forged refresh only rotates the victim's own cookies, and
+// this is how the frontend gets its CSRF token back if it lost it
 router.post('/refresh', async (req, res, next) => {
   try {
-    const { refreshToken } = req.body;
+    const refreshToken = req.cookies?.[REFRESH_TOKEN_COOKIE];
 
     if (!refreshToken) {
       return res.status(401).json({ error: 'Refresh token required' });
     }
 
-    // Verify refresh token
-    let decoded: any;
-    try {
-      decoded = jwt.verify(
-        refreshToken, 
-        process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET!
-      );
-    } catch (error) {
-      return res.status(401).json({ error: 'Invalid refresh token' });
+    const csrfToken = await rotateSession(req, res, refreshToken, req.cookies?.[CSRF_COOKIE]);
+
+    res.json({ csrfToken });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      clearAuthCookies(res);
     }
+    next(error);
+  }
+});
 
-    // Find session
-    const session = await prisma.session.findUnique({
-      where: { refreshToken },
-      include: { user: true }
-    });
+// ===================
+// LOGOUT
+// ===================
+// Works with an expired access token too, so the refresh cookie is checked
+// as well
+router.post('/logout', csrfProtection, async (req, res, next) => {
+  try {
+    const accessToken = req.cookies?.[ACCESS_TOKEN_COOKIE];
+    const refreshToken = req.cookies?.[REFRESH_TOKEN_COOKIE];
+
+    if (accessToken || refreshToken) {
+      const session = await prisma.session.findFirst({
+        where: {
+          OR: [
+            ...(accessToken ? [{ token: accessToken }] : []),
+            ...(refreshToken ? [{ refreshToken }] : []),
+          ]
+        },
+        select: { familyId: true },
+      });
 
-    if (!session || session.expiresAt < new Date()) {
-      return res.status(401).json({ error: 'Session expired' });
+      if (session) {
+        await revokeSessionFamilies([session.familyId]);
+      }
     }
 
-    // Generate new tokens
-    const tokens = generateTokens(session.userId);
+    clearAuthCookies(res);
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // Update session
-    await prisma.session.update({
-      where: { id: session.id },
-      data: {
-        token: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-      }
+// ===================
+// MY SESSIONS
+// ===================
+router.get('/sessions', authenticate, async (req, res, next) => {
+  try {
+    const sessions = await listUserSessions(req.userId!, req.sessionFamilyId);
+
+    res.json({ sessions });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Signs out every device except this one
+router.delete('/sessions', authenticate, async (req, res, next) => {
+  try {
+    const others = await prisma.session.findMany({
+      where: { userId: req.userId, familyId: { not: req.sessionFamilyId }, revokedAt: null },
+      distinct: ['familyId'],
+      select: { familyId: true },
     });
 
-    res.json({
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
+    await revokeSessionFamilies(others.map(s => s.familyId));
+
+    res.json({ message: 'Signed out of all other devices', revoked: others.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/sessions/:id', authenticate, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const session = await prisma.session.findFirst({
+      where: { familyId: id, userId: req.userId, revokedAt: null },
     });
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    await revokeSessionFamilies([id]);
+
+    // Revoking the current device is a logout
+    if (id === req.sessionFamilyId) {
+      clearAuthCookies(res);
+    }
+
+    res.json({ message: 'Session revoked' });
   } catch (error) {
     next(error);
   }
 });
 
 // ===================
-// LOGOUT
+// TWO-FACTOR SETTINGS
 // ===================
-router.post('/logout', authenticate, async (req, res, next) => {
+router.get('/2fa', authenticate, async (req, res, next) => {
+  try {
+    res.json({
+      enabled: !!req.twoFactorEnabled,
+      required: requiresTwoFactor(req.userRole!),
+      recoveryCodesRemaining: req.twoFactorEnabled ? await countRecoveryCodes(req.userId!) : 0,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Returns the secret for the authenticator app; nothing changes until it
+// is confirmed with /2fa/enable
+router.post('/2fa/setup', authenticate, async (req, res, next) => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { id: true, email: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const setup = await startTwoFactorSetup(user);
+
+    res.json(setup);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/2fa/enable', authenticate, validate(twoFactorCodeSchema), async (req, res, next) => {
+  try {
+    const recoveryCodes = await enableTwoFactor(req.userId!, req.body.code.trim());
+
+    // This login just proved it has the app. Other devices sign in again
+    // with a code.
+    await markSessionFamilyTwoFactorVerified(req.sessionFamilyId!);
+    const others = await prisma.session.findMany({
+      where: { userId: req.userId, familyId: { not: req.sessionFamilyId }, revokedAt: null },
+      distinct: ['familyId'],
+      select: { familyId: true },
+    });
+    await revokeSessionFamilies(others.map(s => s.familyId));
 
-    if (token) {
-      await prisma.session.deleteMany({
-        where: { token }
+    res.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replaces the recovery codes, e.g. after using some of them
+router.post('/2fa/recovery-codes', authenticate, validate(twoFactorCodeSchema), async (req, res, next) => {
+  try {
+    await verifyTwoFactorCode(req.userId!, req.body.code);
+    const recoveryCodes = await createRecoveryCodes(req.userId!);
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().optional(),
+});
+
+router.post('/2fa/disable', authenticate, validate(disableTwoFactorSchema), async (req, res, next) => {
+  try {
+    if (requiresTwoFactor(req.userRole!)) {
+      return res.status(400).json({
+        error: 'Two-factor authentication is required for staff accounts'
       });
     }
 
-    res.json({ message: 'Logged out successfully' });
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { password: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Someone at an unlocked computer shouldn't be able to turn it off
+    if (user.password && !(req.body.password && await bcrypt.compare(req.body.password, user.password))) {
+      return res.status(400).json({ error: 'Password is incorrect' });
+    }
+
+    await verifyTwoFactorCode(req.userId!, req.body.code);
+    await disableTwoFactor(req.userId!);
+
+    res.json({ message: 'Two-factor authentication disabled' });
   } catch (error) {
     next(error);
   }
@@ -263,6 +507,8 @@ router.get('/me', authenticate, async (req, res, next) => {
         avatar: true,
         role: true,
         emailVerified: true,
+        twoFactorEnabled: true,
+        deletionScheduledFor: true,
         createdAt: true,
         addresses: true,
       }
@@ -272,7 +518,11 @@ router.get('/me', authenticate, async (req, res, next) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json({ user });
+    // Lets the frontend recover its CSRF token after a page reload
+    res.json({
+      user: { ...user, permissions: ROLE_PERMISSIONS[user.role] },
+      csrfToken: req.cookies?.[CSRF_COOKIE],
+    });
   } catch (error) {
     next(error);
   }
@@ -318,8 +568,9 @@ router.patch('/me', authenticate, validate(updateProfileSchema), async (req, res
 // ===================
 // CHANGE PASSWORD
 // ===================
+// currentPassword may be left out by users who don't have a password yet
 const changePasswordSchema = z.object({
-  currentPassword: z.string().min(1, 'Current password is required'),
+  currentPassword: z.string().optional(),
   newPassword: z.string().min(8, 'Password must be at least 8 characters'),
 });
 
@@ -336,7 +587,8 @@ router.post('/change-password', authenticate, validate(changePasswordSchema), as
     }
 
     // Verify current password
-    const isMatch = await bcrypt.compare(currentPassword, user.password);
+    const isMatch = !user.password ||
+      (!!currentPassword && await bcrypt.compare(currentPassword, user.password));
     if (!isMatch) {
       return res.status(400).json({ error: 'Current password is incorrect' });
     }
@@ -355,6 +607,7 @@ router.post('/change-password', authenticate, validate(changePasswordSchema), as
     await prisma.session.deleteMany({
       where: { userId: req.userId }
     });
+    clearAuthCookies(res);
 
     res.json({ message: 'Password changed successfully. Please log in again.' });
   } catch (error) {
@@ -362,4 +615,177 @@ router.post('/change-password', authenticate, validate(changePasswordSchema), as
   }
 });
 
+// ===================
+// VERIFY EMAIL
+// ===================
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+// No login needed, the link may be opened on another device
+router.post('/verify-email', validate(verifyEmailSchema), async (req, res, next) => {
+  try {
+    const user = await prisma.$transaction(async (tx) => {
+      const userId = await consumeUserToken(tx, req.body.token, 'EMAIL_VERIFICATION');
+
+      return tx.user.update({
+        where: { id: userId },
+        data: { emailVerified: true },
+        select: { id: true, email: true, emailVerified: true },
+      });
+    });
+
+    res.json({ message: 'Email verified successfully', user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// RESEND VERIFICATION
+// ===================
+router.post('/resend-verification', authenticate, async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { id: true, email: true, firstName: true, emailVerified: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.emailVerified) {
+      return res.status(400).json({ error: 'Email is already verified' });
+    }
+
+    const recent = await countRecentUserTokens(
+      user.id,
+      'EMAIL_VERIFICATION',
+      new Date(Date.now() - 60 * 60 * 1000)
+    );
+    if (recent >= MAX_VERIFICATION_EMAILS_PER_HOUR) {
+      return res.status(429).json({
+        error: 'Too many verification emails requested, please try again later'
+      });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.json({ message: `Verification email sent to ${user.email}` });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// UNLOCK ACCOUNT
+// ===================
+// Link from the email sent when an account gets locked
+const unlockAccountSchema = z.object({
+  token: z.string().min(1, 'Unlock token is required'),
+});
+
+router.post('/unlock-account', validate(unlockAccountSchema), async (req, res, next) => {
+  try {
+    await prisma.$transaction(async (tx) => {
+      const userId = await consumeUserToken(tx, req.body.token, 'ACCOUNT_UNLOCK');
+
+      await tx.user.update({
+        where: { id: userId },
+        data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+      });
+    });
+
+    res.json({ message: 'Your account is unlocked. You can sign in again.' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// FORGOT PASSWORD
+// ===================
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+// Always answers the same way so the form can't be used to find out which
+// emails have accounts
+router.post('/forgot-password', validate(forgotPasswordSchema), async (req, res, next) => {
+  try {
+    const email = req.body.email.toLowerCase();
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true },
+    });
+
+    if (user) {
+      const recent = await countRecentUserTokens(
+        user.id,
+        'PASSWORD_RESET',
+        new Date(Date.now() - 60 * 60 * 1000)
+      );
+
+      if (recent < MAX_RESETS_PER_HOUR) {
+        const token = await createUserToken(user.id, 'PASSWORD_RESET', PASSWORD_RESET_TTL_MS);
+
+        // Not awaited: a slower response would also give away that the
+        // account exists
+        sendPasswordReset(user.email, token).catch(() => {});
+      }
+    }
+
+    res.json({
+      message: 'If an account exists for this email, a password reset link has been sent.'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// RESET PASSWORD
+// ===================
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+router.post('/reset-password', validate(resetPasswordSchema), async (req, res, next) => {
+  try {
+    const { token, password } = req.body;
+
+    // Hash new password
+    const salt = await bcrypt.genSalt(12);
+    const hashedPassword = await bcrypt.hash(password, salt);
+
+    await prisma.$transaction(async (tx) => {
+      const userId = await consumeUserToken(tx, token, 'PASSWORD_RESET');
+
+      // Proving access to the email also lifts a lockout
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          password: hashedPassword,
+          failedLoginAttempts: 0,
+          lastFailedLoginAt: null,
+          lockedUntil: null,
+        }
+      });
+
+      // Whoever had the old password is signed out everywhere
+      await tx.session.deleteMany({
+        where: { userId }
+      });
+    });
+    clearAuthCookies(res);
+
+    res.json({ message: 'Password reset successfully. Please log in with your new password.' });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
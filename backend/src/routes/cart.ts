@@ -4,6 +4,7 @@ import { prisma } from '../lib/prisma';
 import { optionalAuth } from '../middleware/auth';
 import { validate } from '../middleware/validate';
 import { v4 as uuidv4 } from 'uuid';
+import { restoreRecoveredCart } from '../services/cartRecovery';
 
 const router = Router();
 
@@ -55,6 +56,9 @@ router.get('/', optionalAuth, async (req, res, next) => {
       const itemTotal = price * item.quantity;
       subtotal += itemTotal;
 
+      // Stock is tracked on the variant when there is one
+      const availableQuantity = item.variant ? item.variant.quantity : item.product.quantity;
+
       return {
         id: item.id,
         productId: item.productId,
@@ -67,8 +71,10 @@ router.get('/', optionalAuth, async (req, res, next) => {
           price: item.product.price,
           compareAtPrice: item.product.compareAtPrice,
           image: item.product.images[0]?.url,
-          inStock: item.product.quantity > 0 || item.product.allowBackorder,
-          availableQuantity: item.product.quantity,
+          isActive: item.product.isActive && (!item.variant || item.variant.isActive),
+          inStock: availableQuantity > 0 || item.product.allowBackorder,
+          availableQuantity,
+          allowBackorder: item.product.allowBackorder,
         },
         variant: item.variant ? {
           id: item.variant.id,
@@ -303,7 +309,7 @@ router.post('/merge', optionalAuth, async (req, res, next) => {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    const { sessionId } = req.body;
+    const sessionId = req.body.sessionId || req.headers['x-cart-session'];
 
     if (!sessionId) {
       return res.json({ message: 'No guest cart to merge' });
@@ -311,34 +317,45 @@ router.post('/merge', optionalAuth, async (req, res, next) => {
 
     // Get guest cart items
     const guestItems = await prisma.cartItem.findMany({
-      where: { sessionId }
+      where: { sessionId },
+      include: { product: true, variant: true }
     });
 
-    // Merge each item
-    for (const guestItem of guestItems) {
-      const existingUserItem = await prisma.cartItem.findFirst({
-        where: {
-          userId: req.userId,
-          productId: guestItem.productId,
-          variantId: guestItem.variantId,
-        }
-      });
-
-      if (existingUserItem) {
-        // Add quantities
-        await prisma.cartItem.update({
-          where: { id: existingUserItem.id },
-          data: { quantity: existingUserItem.quantity + guestItem.quantity }
-        });
-        await prisma.cartItem.delete({ where: { id: guestItem.id } });
-      } else {
-        // Transfer to user
-        await prisma.cartItem.update({
-          where: { id: guestItem.id },
-          data: { userId: req.userId, sessionId: null }
+    // Merge each item. Combined quantities are capped at the stock left so
+    // the merged cart can still be checked out.
+    await prisma.$transaction(async (tx) => {
+      for (const guestItem of guestItems) {
+        const existingUserItem = await tx.cartItem.findFirst({
+          where: {
+            userId: req.userId,
+            productId: guestItem.productId,
+            variantId: guestItem.variantId,
+          }
         });
+
+        if (existingUserItem) {
+          const available = guestItem.variant ? guestItem.variant.quantity : guestItem.product.quantity;
+          const combined = existingUserItem.quantity + guestItem.quantity;
+
+          // Add quantities
+          await tx.cartItem.update({
+            where: { id: existingUserItem.id },
+            data: {
+              quantity: guestItem.product.allowBackorder
+                ? combined
+                : Math.max(Math.min(combined, available), existingUserItem.quantity)
+            }
+          });
+          await tx.cartItem.delete({ where: { id: guestItem.id } });
+        } else {
+          // Transfer to user
+          await tx.cartItem.update({
+            where: { id: guestItem.id },
+            data: { userId: req.userId, sessionId: null }
+          });
+        }
       }
-    }
+    });
 
     res.json({ message: 'Cart merged successfully' });
   } catch (error) {
@@ -346,4 +363,26 @@ router.post('/merge', optionalAuth, async (req, res, next) => {
   }
 });
 
+// ===================
+// RESTORE FROM REMINDER EMAIL
+// ===================
+const recoverSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+router.post('/recover', optionalAuth, validate(recoverSchema), async (req, res, next) => {
+  try {
+    const sessionId = getSessionId(req, res);
+
+    const result = await restoreRecoveredCart(req.body.token, { userId: req.userId, sessionId });
+
+    res.json({
+      message: 'Cart restored',
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -1,8 +1,9 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma';
-import { authenticate, isAdmin } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { validate } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
 
 const router = Router();
 
@@ -85,10 +86,11 @@ const createCategorySchema = z.object({
   description: z.string().optional(),
   image: z.string().url().optional(),
   parentId: z.string().optional(),
+  taxClassId: z.string().optional(),
   sortOrder: z.number().int().default(0),
 });
 
-router.post('/', authenticate, isAdmin, validate(createCategorySchema), async (req, res, next) => {
+router.post('/', authenticate, requirePermission('categories:write'), validate(createCategorySchema), async (req, res, next) => {
   try {
     const data = req.body;
 
@@ -109,11 +111,14 @@ router.post('/', authenticate, isAdmin, validate(createCategorySchema), async (r
         description: data.description,
         image: data.image,
         parentId: data.parentId,
+        taxClassId: data.taxClassId,
         sortOrder: data.sortOrder,
       },
       include: { parent: true }
     });
 
+    await recordAudit(req, { action: 'category.create', entityType: 'Category', entityId: category.id, after: category });
+
     res.status(201).json({ category });
   } catch (error) {
     next(error);
@@ -123,7 +128,7 @@ router.post('/', authenticate, isAdmin, validate(createCategorySchema), async (r
 // ===================
 // UPDATE CATEGORY (Admin)
 // ===================
-router.put('/:id', authenticate, isAdmin, async (req, res, next) => {
+router.put('/:id', authenticate, requirePermission('categories:write'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const data = req.body;
@@ -155,12 +160,15 @@ router.put('/:id', authenticate, isAdmin, async (req, res, next) => {
         description: data.description,
         image: data.image,
         parentId: data.parentId,
+        taxClassId: data.taxClassId,
         sortOrder: data.sortOrder,
         isActive: data.isActive,
       },
       include: { parent: true }
     });
 
+    await recordAudit(req, { action: 'category.update', entityType: 'Category', entityId: id, before: existing, after: category });
+
     res.json({ category });
   } catch (error) {
     next(error);
@@ -170,7 +178,7 @@ router.put('/:id', authenticate, isAdmin, async (req, res, next) => {
 // ===================
 // DELETE CATEGORY (Admin)
 // ===================
-router.delete('/:id', authenticate, isAdmin, async (req, res, next) => {
+router.delete('/:id', authenticate, requirePermission('categories:write'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -196,10 +204,12 @@ router.delete('/:id', authenticate, isAdmin, async (req, res, next) => {
       });
     }
 
-    await prisma.category.delete({
+    const category = await prisma.category.delete({
       where: { id }
     });
 
+    await recordAudit(req, { action: 'category.delete', entityType: 'Category', entityId: id, before: category });
+
     res.json({ message: 'Category deleted successfully' });
   } catch (error) {
     next(error);
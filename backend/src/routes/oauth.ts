@@ -0,0 +1,224 @@
+import { Router, Request, Response, CookieOptions } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../lib/prisma';
+import { authenticate, optionalAuth } from '../middleware/auth';
+import { startSession, startTwoFactorChallenge } from '../services/sessions';
+import {
+  OAuthError,
+  createAuthorizationRequest,
+  exchangeAuthorizationCode,
+  getEnabledProviders,
+  getProvider,
+  resolveOAuthUser,
+} from '../services/oauth';
+
+const router = Router();
+
+const STATE_COOKIE = 'oauth_state';
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+interface OAuthState {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirect: string;
+  linkUserId?: string;
+}
+
+// Apple's form post is a cross-site POST, which only carries SameSite=None
+// cookies
+const getStateCookieOptions = (formPost?: boolean): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production' || !!formPost,
+  sameSite: formPost ? 'none' : 'lax',
+  path: '/api/auth/oauth',
+  maxAge: STATE_TTL_MS,
+});
+
+// Only paths on our own frontend
+const getSafeRedirect = (redirect: unknown) =>
+  typeof redirect === 'string' && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/';
+
+const redirectToFrontend = (res: Response, path: string, params: Record<string, string>) =>
+  res.redirect(`${process.env.FRONTEND_URL}${path}?${new URLSearchParams(params)}`);
+
+// ===================
+// PROVIDERS
+// ===================
+// Which sign-in buttons the frontend should show
+router.get('/providers', (req, res) => {
+  res.json({
+    providers: getEnabledProviders().map(p => ({ id: p.id, name: p.name })),
+  });
+});
+
+// ===================
+// LINKED ACCOUNTS
+// ===================
+router.get('/accounts', authenticate, async (req, res, next) => {
+  try {
+    const [accounts, user] = await Promise.all([
+      prisma.account.findMany({
+        where: { userId: req.userId },
+        select: { provider: true, email: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.user.findUnique({
+        where: { id: req.userId },
+        select: { password: true },
+      }),
+    ]);
+
+    res.json({ accounts, hasPassword: !!user?.password });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/accounts/:provider', authenticate, async (req, res, next) => {
+  try {
+    const { provider } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { password: true, accounts: { select: { provider: true } } },
+    });
+
+    if (!user || !user.accounts.some(a => a.provider === provider)) {
+      return res.status(404).json({ error: 'Account not connected' });
+    }
+
+    // Keep at least one way to sign in
+    if (!user.password && user.accounts.length === 1) {
+      return res.status(400).json({
+        error: 'Set a password before disconnecting your only sign-in method'
+      });
+    }
+
+    await prisma.account.delete({
+      where: { userId_provider: { userId: req.userId!, provider } }
+    });
+
+    res.json({ message: 'Account disconnected' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// START SIGN IN
+// ===================
+// A full-page navigation, not an API call. ?link=1 from a signed-in user
+// connects the provider to their account instead of signing in.
+router.get('/:provider', optionalAuth, async (req, res) => {
+  const redirect = getSafeRedirect(req.query.redirect);
+  const linking = req.query.link === '1' && !!req.userId;
+
+  try {
+    const provider = getProvider(req.params.provider);
+    const request = await createAuthorizationRequest(provider);
+
+    const state: OAuthState = {
+      provider: provider.id,
+      state: request.state,
+      nonce: request.nonce,
+      codeVerifier: request.codeVerifier,
+      redirect,
+      ...(linking && { linkUserId: req.userId }),
+    };
+
+    res.cookie(
+      STATE_COOKIE,
+      jwt.sign(state, process.env.JWT_SECRET!, { expiresIn: STATE_TTL_MS / 1000 }),
+      getStateCookieOptions(provider.formPost)
+    );
+    res.redirect(request.url);
+  } catch (error: any) {
+    console.error('OAuth sign-in could not start:', error);
+    redirectToFrontend(res, linking ? '/account' : '/account/login', {
+      error: error instanceof OAuthError ? error.message : 'Sign-in is unavailable right now',
+    });
+  }
+});
+
+// ===================
+// CALLBACK
+// ===================
+const handleCallback = async (req: Request, res: Response) => {
+  // Apple posts the parameters, everyone else puts them in the query
+  const params = { ...req.query, ...req.body };
+
+  let state: OAuthState | null = null;
+  try {
+    state = jwt.verify(req.cookies?.[STATE_COOKIE] || '', process.env.JWT_SECRET!) as unknown as OAuthState;
+  } catch {
+    // Handled below
+  }
+
+  const failurePath = state?.linkUserId ? '/account' : '/account/login';
+
+  try {
+    const provider = getProvider(req.params.provider);
+    res.clearCookie(STATE_COOKIE, getStateCookieOptions(provider.formPost));
+
+    if (!state || state.provider !== provider.id || state.state !== params.state) {
+      throw new OAuthError('Sign-in expired, please try again');
+    }
+
+    if (params.error) {
+      // e.g. the user pressed cancel on the provider's page
+      throw new OAuthError(params.error === 'access_denied' ? 'Sign-in was cancelled' : 'Sign-in failed');
+    }
+
+    if (typeof params.code !== 'string') {
+      throw new OAuthError('Sign-in failed');
+    }
+
+    const profile = await exchangeAuthorizationCode(provider, {
+      code: params.code,
+      codeVerifier: state.codeVerifier,
+      nonce: state.nonce,
+    });
+
+    // Apple sends the name once, on first sign-in, outside the ID token
+    if (typeof params.user === 'string') {
+      try {
+        const appleUser = JSON.parse(params.user);
+        profile.firstName = profile.firstName || appleUser.name?.firstName || null;
+        profile.lastName = profile.lastName || appleUser.name?.lastName || null;
+      } catch {
+        // Not worth failing the sign-in over
+      }
+    }
+
+    const user = await resolveOAuthUser(provider, profile, state.linkUserId);
+
+    if (state.linkUserId) {
+      return redirectToFrontend(res, '/account', { linked: provider.id });
+    }
+
+    // Same code step as a password login
+    if (user.twoFactorEnabled) {
+      startTwoFactorChallenge(res, user.id);
+      return redirectToFrontend(res, '/account/login', { twoFactor: '1', redirect: state.redirect });
+    }
+
+    await startSession(req, res, user.id);
+
+    // The frontend picks up the session (and CSRF token) from /auth/me
+    redirectToFrontend(res, '/account/oauth', { redirect: state.redirect });
+  } catch (error: any) {
+    if (!(error instanceof OAuthError)) {
+      console.error('OAuth callback failed:', error);
+    }
+    redirectToFrontend(res, failurePath, {
+      error: error instanceof OAuthError ? error.message : 'Sign-in failed, please try again',
+    });
+  }
+};
+
+router.get('/:provider/callback', handleCallback);
+router.post('/:provider/callback', handleCallback);
+
+export default router;
@@ -2,15 +2,28 @@ import { Router } from 'express';
 import { z } from 'zod';
 import Stripe from 'stripe';
 import { prisma } from '../lib/prisma';
-import { authenticate, optionalAuth, isAdmin } from '../middleware/auth';
+import { stripe } from '../lib/stripe';
+import { authenticate, optionalAuth, canActAsStaff, requirePermission, requireVerifiedEmail } from '../middleware/auth';
 import { validate } from '../middleware/validate';
 import { generateOrderNumber } from '../utils/orderNumber';
-import { sendOrderConfirmation } from '../services/email';
+import { sendAdminAlert } from '../services/email';
+import {
+  reserveStock,
+  releaseExpiredReservations,
+  InsufficientStockError,
+  RESERVATION_TTL_MS,
+} from '../services/inventory';
+import { createRefund, refundRemainingBalance } from '../services/refunds';
+import { recordAudit } from '../services/audit';
+import { applyOrderTransition, transitionOrder } from '../services/orderStateMachine';
+import { ShippingError } from '../services/shipping';
+import { DiscountError } from '../services/discounts';
+import { getCartLines, getItemLines, priceOrder } from '../services/pricing';
+import { toStoredTaxBreakdown } from '../services/tax';
+import { reconcileCheckoutSession } from '../services/stripeWebhooks';
+import { closeCheckoutSession } from '../services/maintenance';
 
 const router = Router();
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2023-10-16',
-});
 
 // ===================
 // CREATE CHECKOUT SESSION
@@ -28,197 +41,210 @@ const checkoutSchema = z.object({
     postalCode: z.string().optional(),
     country: z.string().min(1),
   }),
+  shippingMethodId: z.string().optional(),
   discountCode: z.string().optional(),
+  discountCodes: z.array(z.string()).optional(), // For stacking combinable codes
   notes: z.string().optional(),
 });
 
 router.post('/checkout', optionalAuth, validate(checkoutSchema), async (req, res, next) => {
   try {
-    const { email, phone, shippingAddress, discountCode, notes } = req.body;
+    const { email, phone, shippingAddress, shippingMethodId, discountCode, discountCodes, notes } = req.body;
     const sessionId = req.cookies?.cart_session || req.headers['x-cart-session'];
 
-    // Get cart items
-    const cartItems = await prisma.cartItem.findMany({
-      where: req.userId 
-        ? { userId: req.userId }
-        : { sessionId },
-      include: {
-        product: { include: { images: { take: 1 } } },
-        variant: true,
-      }
-    });
+    const cartItems = await getCartLines({ userId: req.userId, sessionId });
 
     if (cartItems.length === 0) {
       return res.status(400).json({ error: 'Cart is empty' });
     }
 
-    // Verify stock and calculate totals
-    let subtotal = 0;
-    const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
-    const orderItems: any[] = [];
-
-    for (const item of cartItems) {
-      const price = item.variant 
-        ? Number(item.variant.price)
-        : Number(item.product.price);
-      
-      const availableQty = item.variant
-        ? item.variant.quantity
-        : item.product.quantity;
-
-      if (!item.product.allowBackorder && item.quantity > availableQty) {
-        return res.status(400).json({
-          error: `Not enough stock for ${item.product.name}`,
-          productId: item.productId,
-          available: availableQty,
-        });
+    // Calculate totals, discounts, shipping and tax (stock is checked when
+    // it is reserved below)
+    let pricing;
+    try {
+      pricing = await priceOrder(cartItems, {
+        discountCodes: [...(discountCode ? [discountCode] : []), ...(discountCodes || [])],
+        userId: req.userId,
+        email,
+        destination: { country: shippingAddress.country, city: shippingAddress.city },
+        shippingMethodId,
+      });
+    } catch (error) {
+      if (error instanceof DiscountError) {
+        return res.status(400).json({ error: error.message, code: error.code, reason: error.reason });
       }
+      if (error instanceof ShippingError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
 
-      subtotal += price * item.quantity;
+    const { items: orderItems, subtotal, discounts, discountAmount, shippingCost, tax, total } = pricing;
+    const shipping = pricing.shipping!;
+
+    // Stripe line items
+    const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = cartItems.map((item, i) => ({
+      price_data: {
+        currency: 'ils',
+        product_data: {
+          name: item.product.name,
+          description: item.variant ? item.variant.name : undefined,
+          images: item.product.images[0] ? [item.product.images[0].url] : [],
+        },
+        unit_amount: Math.round(orderItems[i].price * 100), // Stripe uses cents/agorot
+      },
+      quantity: item.quantity,
+    }));
 
-      // Stripe line item
+    if (tax.mode === 'exclusive' && tax.taxAmount > 0) {
       lineItems.push({
         price_data: {
           currency: 'ils',
           product_data: {
-            name: item.product.name,
-            description: item.variant ? item.variant.name : undefined,
-            images: item.product.images[0] ? [item.product.images[0].url] : [],
+            name: tax.breakdown.map(t => `${t.name} ${t.rate}%`).join(', ') || 'Tax',
           },
-          unit_amount: Math.round(price * 100), // Stripe uses cents/agorot
+          unit_amount: Math.round(tax.taxAmount * 100),
         },
-        quantity: item.quantity,
-      });
-
-      // Order item data
-      orderItems.push({
-        productId: item.productId,
-        variantId: item.variantId,
-        name: item.product.name + (item.variant ? ` - ${item.variant.name}` : ''),
-        sku: item.variant?.sku || item.product.sku,
-        price,
-        quantity: item.quantity,
-        total: price * item.quantity,
+        quantity: 1,
       });
     }
 
-    // Apply discount if provided
-    let discountAmount = 0;
-    let discountCodeRecord = null;
-
-    if (discountCode) {
-      discountCodeRecord = await prisma.discountCode.findUnique({
-        where: { code: discountCode.toUpperCase() }
-      });
-
-      if (!discountCodeRecord) {
-        return res.status(400).json({ error: 'Invalid discount code' });
-      }
-
-      if (!discountCodeRecord.isActive) {
-        return res.status(400).json({ error: 'Discount code is no longer active' });
-      }
-
-      if (discountCodeRecord.expiresAt && discountCodeRecord.expiresAt < new Date()) {
-        return res.status(400).json({ error: 'Discount code has expired' });
-      }
-
-      if (discountCodeRecord.maxUses && discountCodeRecord.usedCount >= discountCodeRecord.maxUses) {
-        return res.status(400).json({ error: 'Discount code usage limit reached' });
-      }
+    // Give back stock held by checkouts that were abandoned
+    await releaseExpiredReservations();
+
+    const reservationExpiresAt = new Date(Date.now() + RESERVATION_TTL_MS);
+
+    // Create the order and hold its stock atomically. If any item is out of
+    // stock the whole transaction rolls back and no order is left behind.
+    let order;
+    try {
+      order = await prisma.$transaction(async (tx) => {
+        // Create or get address
+        let addressId = null;
+        if (req.userId) {
+          const address = await tx.address.create({
+            data: {
+              userId: req.userId,
+              ...shippingAddress,
+            }
+          });
+          addressId = address.id;
+        }
 
-      if (discountCodeRecord.minOrderAmount && subtotal < Number(discountCodeRecord.minOrderAmount)) {
-        return res.status(400).json({ 
-          error: `Minimum order amount of ${discountCodeRecord.minOrderAmount} ILS required` 
+        // Create order in pending state
+        const created = await tx.order.create({
+          data: {
+            orderNumber: generateOrderNumber(),
+            userId: req.userId,
+            email,
+            phone,
+            status: 'PENDING',
+            paymentStatus: 'PENDING',
+            subtotal,
+            shippingCost,
+            taxAmount: tax.taxAmount,
+            taxMode: tax.mode,
+            taxBreakdown: toStoredTaxBreakdown(tax),
+            discountAmount,
+            total,
+            currency: 'ILS',
+            notes,
+            shippingAddressId: addressId,
+            shippingMethodId: shipping.option.methodId,
+            shippingMethodName: shipping.option.name,
+            shippingZoneName: shipping.zone.name,
+            cartSessionId: req.userId ? null : sessionId,
+            discountCodeId: discounts.applied[0]?.discountCode.id,
+            discountRedemptions: {
+              create: discounts.applied.map(a => ({
+                discountCodeId: a.discountCode.id,
+                userId: req.userId,
+                email: email.toLowerCase(),
+                amount: a.amount,
+              })),
+            },
+            items: {
+              create: orderItems,
+            },
+            timeline: {
+              create: {
+                status: 'PENDING',
+                note: 'Order created, awaiting payment',
+              }
+            }
+          },
+          include: { items: true }
         });
-      }
 
-      // Calculate discount
-      if (discountCodeRecord.type === 'PERCENTAGE') {
-        discountAmount = subtotal * (Number(discountCodeRecord.value) / 100);
-      } else if (discountCodeRecord.type === 'FIXED_AMOUNT') {
-        discountAmount = Number(discountCodeRecord.value);
-      }
-    }
-
-    // Calculate shipping (can be customized based on location/weight)
-    const shippingCost = subtotal > 200 ? 0 : 25; // Free shipping over 200 ILS
-
-    // Calculate total
-    const total = subtotal - discountAmount + shippingCost;
+        await reserveStock(tx, created.id, orderItems, reservationExpiresAt);
 
-    // Create or get address
-    let addressId = null;
-    if (req.userId) {
-      const address = await prisma.address.create({
-        data: {
-          userId: req.userId,
-          ...shippingAddress,
-        }
+        return created;
       });
-      addressId = address.id;
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(400).json({
+          error: error.message,
+          productId: error.productId,
+          available: error.available,
+        });
+      }
+      throw error;
     }
 
-    // Create order in pending state
-    const order = await prisma.order.create({
-      data: {
-        orderNumber: generateOrderNumber(),
-        userId: req.userId,
-        email,
-        phone,
-        status: 'PENDING',
-        paymentStatus: 'PENDING',
-        subtotal,
-        shippingCost,
-        discountAmount,
-        total,
-        currency: 'ILS',
-        notes,
-        shippingAddressId: addressId,
-        discountCodeId: discountCodeRecord?.id,
-        items: {
-          create: orderItems,
-        },
-        timeline: {
-          create: {
-            status: 'PENDING',
-            note: 'Order created, awaiting payment',
-          }
-        }
-      },
-      include: { items: true }
-    });
-
     // Create Stripe checkout session
-    const checkoutSession = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      mode: 'payment',
-      line_items: lineItems,
-      discounts: discountCodeRecord ? [{
-        coupon: await getOrCreateStripeCoupon(discountCodeRecord),
-      }] : undefined,
-      shipping_options: [{
-        shipping_rate_data: {
-          type: 'fixed_amount',
-          fixed_amount: {
-            amount: Math.round(shippingCost * 100),
-            currency: 'ils',
+    let checkoutSession: Stripe.Checkout.Session;
+    try {
+      checkoutSession = await stripe.checkout.sessions.create({
+        payment_method_types: ['card'],
+        mode: 'payment',
+        line_items: lineItems,
+        discounts: discountAmount > 0 ? [{
+          coupon: await createStripeCoupon(
+            discounts.applied.map(a => a.discountCode.code).join(' + '),
+            discountAmount
+          ),
+        }] : undefined,
+        shipping_options: [{
+          shipping_rate_data: {
+            type: 'fixed_amount',
+            fixed_amount: {
+              amount: Math.round(shippingCost * 100),
+              currency: 'ils',
+            },
+            display_name: shipping.option.name + (shippingCost === 0 && !shipping.option.isPickup ? ' (Free)' : ''),
+            ...(shipping.option.minDays != null && shipping.option.maxDays != null && {
+              delivery_estimate: {
+                minimum: { unit: 'business_day', value: shipping.option.minDays },
+                maximum: { unit: 'business_day', value: shipping.option.maxDays },
+              },
+            }),
           },
-          display_name: shippingCost === 0 ? 'Free Shipping' : 'Standard Shipping',
-          delivery_estimate: {
-            minimum: { unit: 'business_day', value: 3 },
-            maximum: { unit: 'business_day', value: 7 },
+        }],
+        customer_email: email,
+        metadata: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+        },
+        payment_intent_data: {
+          metadata: {
+            orderId: order.id,
+            orderNumber: order.orderNumber,
           },
         },
-      }],
-      customer_email: email,
-      metadata: {
-        orderId: order.id,
-        orderNumber: order.orderNumber,
-      },
-      success_url: `${process.env.FRONTEND_URL}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${process.env.FRONTEND_URL}/checkout/cancelled`,
-    });
+        expires_at: Math.floor(reservationExpiresAt.getTime() / 1000),
+        success_url: `${process.env.FRONTEND_URL}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${process.env.FRONTEND_URL}/checkout/cancelled`,
+      });
+    } catch (error) {
+      // Don't keep stock held for a checkout the customer can never complete
+      await prisma.$transaction((tx) =>
+        applyOrderTransition(tx, order.id, {
+          status: 'CANCELLED',
+          note: 'Payment session could not be created',
+        })
+      );
+      throw error;
+    }
 
     // Update order with Stripe session ID
     await prisma.order.update({
@@ -237,30 +263,190 @@ router.post('/checkout', optionalAuth, validate(checkoutSchema), async (req, res
   }
 });
 
-// Helper to create Stripe coupon from our discount code
-async function getOrCreateStripeCoupon(discountCode: any): Promise<string> {
+// Helper to create a single-use Stripe coupon for the discount we calculated.
+// A percentage coupon would also discount the tax line item, so Stripe is
+// given the exact amount instead.
+async function createStripeCoupon(code: string, amount: number): Promise<string> {
+  const coupon = await stripe.coupons.create({
+    name: code,
+    amount_off: Math.round(amount * 100),
+    currency: 'ils',
+    duration: 'once',
+    max_redemptions: 1,
+  });
+  return coupon.id;
+}
+
+// ===================
+// VALIDATE DISCOUNT (Checkout preview)
+// ===================
+// Prices the cart with the code applied using the same calculation as
+// checkout. Uses the stored cart unless the items are sent in the body.
+const validateDiscountSchema = z.object({
+  code: z.string().min(1),
+  codes: z.array(z.string()).optional(), // Codes already applied, for stacking
+  email: z.string().email().optional(),
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    variantId: z.string().optional().nullable(),
+    quantity: z.number().int().positive(),
+  })).optional(),
+  country: z.string().optional(),
+  city: z.string().optional(),
+  shippingMethodId: z.string().optional(),
+});
+
+router.post('/validate-discount', optionalAuth, validate(validateDiscountSchema), async (req, res, next) => {
   try {
-    // Try to get existing coupon
-    const coupon = await stripe.coupons.retrieve(discountCode.code);
-    return coupon.id;
+    const { code, codes, email, items, country, city, shippingMethodId } = req.body;
+    const sessionId = req.cookies?.cart_session || req.headers['x-cart-session'];
+
+    const lines = items && items.length > 0
+      ? await getItemLines(items)
+      : await getCartLines({ userId: req.userId, sessionId });
+
+    if (lines.length === 0) {
+      return res.status(400).json({ valid: false, error: 'Cart is empty' });
+    }
+
+    let pricing;
+    try {
+      pricing = await priceOrder(lines, {
+        discountCodes: [...(codes || []), code],
+        userId: req.userId,
+        email,
+        ...(country && { destination: { country, city } }),
+        shippingMethodId,
+      });
+    } catch (error) {
+      if (error instanceof DiscountError) {
+        return res.status(400).json({
+          valid: false,
+          error: error.message,
+          code: error.code,
+          reason: error.reason,
+        });
+      }
+      if (error instanceof ShippingError) {
+        return res.status(400).json({ valid: false, error: error.message });
+      }
+      throw error;
+    }
+
+    const applied = pricing.discounts.applied.find(a => a.discountCode.code === code.trim().toUpperCase())!;
+
+    res.json({
+      valid: true,
+      code: applied.discountCode.code,
+      type: applied.discountCode.type,
+      discountAmount: applied.amount,
+      freeShipping: applied.freeShipping,
+      discounts: pricing.discounts.applied.map(a => ({
+        code: a.discountCode.code,
+        type: a.discountCode.type,
+        amount: a.amount,
+        freeShipping: a.freeShipping,
+      })),
+      totals: {
+        subtotal: pricing.subtotal,
+        discountAmount: pricing.discountAmount,
+        shippingCost: pricing.shipping ? pricing.shippingCost : null,
+        taxAmount: pricing.tax.taxAmount,
+        taxMode: pricing.tax.mode,
+        total: pricing.total,
+      },
+    });
   } catch (error) {
-    // Create new coupon
-    const couponData: Stripe.CouponCreateParams = {
-      id: discountCode.code,
-      name: discountCode.code,
-    };
-
-    if (discountCode.type === 'PERCENTAGE') {
-      couponData.percent_off = Number(discountCode.value);
-    } else {
-      couponData.amount_off = Math.round(Number(discountCode.value) * 100);
-      couponData.currency = 'ils';
+    next(error);
+  }
+});
+
+// ===================
+// GET ORDER BY CHECKOUT SESSION (Success page)
+// ===================
+// Knowing the Stripe session ID is what grants access, so guests can see
+// their order after paying. Only a summary is returned: no address, phone or
+// payment references.
+const maskEmail = (email: string) => {
+  const [name, domain] = email.split('@');
+  return `${name.slice(0, 1)}${'*'.repeat(Math.max(name.length - 1, 2))}@${domain}`;
+};
+
+router.get('/by-session/:sessionId', async (req, res, next) => {
+  try {
+    const { sessionId } = req.params;
+
+    if (!sessionId.startsWith('cs_')) {
+      return res.status(404).json({ error: 'Order not found' });
     }
 
-    const newCoupon = await stripe.coupons.create(couponData);
-    return newCoupon.id;
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await stripe.checkout.sessions.retrieve(sessionId);
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+      throw error;
+    }
+
+    const orderId = session.metadata?.orderId;
+    const existing = orderId
+      ? await prisma.order.findUnique({ where: { id: orderId }, select: { stripePaymentId: true } })
+      : null;
+
+    // The session must be the one this order was checked out with
+    if (!existing || existing.stripePaymentId !== session.id) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    // Don't leave the customer looking at a pending order when the webhook
+    // is late
+    await reconcileCheckoutSession(session);
+
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: {
+        items: {
+          include: {
+            product: {
+              select: { slug: true, images: { take: 1 } }
+            }
+          }
+        },
+      }
+    });
+
+    res.json({
+      order: {
+        id: order.id,
+        orderNumber: order.orderNumber,
+        email: maskEmail(order.email),
+        status: order.status,
+        paymentStatus: order.paymentStatus,
+        subtotal: order.subtotal,
+        discountAmount: order.discountAmount,
+        shippingCost: order.shippingCost,
+        taxAmount: order.taxAmount,
+        taxMode: order.taxMode,
+        total: order.total,
+        currency: order.currency,
+        shippingMethodName: order.shippingMethodName,
+        createdAt: order.createdAt,
+        items: order.items.map(item => ({
+          name: item.name,
+          quantity: item.quantity,
+          price: item.price,
+          total: item.total,
+          slug: item.product.slug,
+          image: item.product.images[0]?.url || null,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
   }
-}
+});
 
 // ===================
 // GET ORDER BY ID
@@ -284,6 +470,14 @@ router.get('/:id', optionalAuth, async (req, res, next) => {
           orderBy: { createdAt: 'desc' }
         },
         discountCode: true,
+        refunds: {
+          orderBy: { createdAt: 'desc' },
+          include: { items: true },
+        },
+        returns: {
+          orderBy: { createdAt: 'desc' },
+          include: { items: true },
+        },
       }
     });
 
@@ -291,11 +485,17 @@ router.get('/:id', optionalAuth, async (req, res, next) => {
       return res.status(404).json({ error: 'Order not found' });
     }
 
-    // Verify ownership (unless admin)
-    if (req.userId !== order.userId && req.userRole !== 'ADMIN') {
+    // Verify ownership (unless staff)
+    const isStaff = canActAsStaff(req, 'orders:read');
+    if (req.userId !== order.userId && !isStaff) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    // Same policy as the order history list
+    if (!isStaff && !req.emailVerified) {
+      return requireVerifiedEmail(req, res, next);
+    }
+
     res.json({ order });
   } catch (error) {
     next(error);
@@ -344,7 +544,7 @@ router.get('/track/:orderNumber', async (req, res, next) => {
 // ===================
 // GET USER'S ORDERS
 // ===================
-router.get('/', authenticate, async (req, res, next) => {
+router.get('/', authenticate, requireVerifiedEmail, async (req, res, next) => {
   try {
     const { page = '1', limit = '10' } = req.query;
     const pageNum = parseInt(page as string);
@@ -410,49 +610,38 @@ router.post('/:id/cancel', authenticate, async (req, res, next) => {
       });
     }
 
-    // If paid, initiate refund
-    if (order.paymentStatus === 'PAID' && order.stripePaymentId) {
-      // Get payment intent from session
-      const session = await stripe.checkout.sessions.retrieve(order.stripePaymentId);
-      if (session.payment_intent) {
-        await stripe.refunds.create({
-          payment_intent: session.payment_intent as string,
-        });
-      }
+    // An unpaid order's checkout page is closed first so it can't be paid
+    // after the cancellation. If it was paid already, the payment is applied
+    // and the cancellation below refunds it.
+    if (order.paymentStatus !== 'PAID' && order.stripePaymentId) {
+      await closeCheckoutSession(order.stripePaymentId);
     }
 
-    // Update order
-    const updated = await prisma.order.update({
-      where: { id },
-      data: {
-        status: 'CANCELLED',
-        paymentStatus: order.paymentStatus === 'PAID' ? 'REFUNDED' : order.paymentStatus,
-        cancelledAt: new Date(),
-        timeline: {
-          create: {
-            status: 'CANCELLED',
-            note: reason || 'Cancelled by customer',
-          }
-        }
-      }
+    // Cancelling restores inventory (held or sold)
+    let updated = await transitionOrder(id, {
+      status: 'CANCELLED',
+      note: reason || 'Cancelled by customer',
+      expect: { status: ['PENDING', 'CONFIRMED'] },
     });
 
-    // Restore inventory
-    const orderItems = await prisma.orderItem.findMany({
-      where: { orderId: id }
-    });
+    if (!updated) {
+      return res.status(400).json({ 
+        error: 'Order cannot be cancelled at this stage' 
+      });
+    }
 
-    for (const item of orderItems) {
-      if (item.variantId) {
-        await prisma.productVariant.update({
-          where: { id: item.variantId },
-          data: { quantity: { increment: item.quantity } }
-        });
-      } else {
-        await prisma.product.update({
-          where: { id: item.productId },
-          data: { quantity: { increment: item.quantity } }
-        });
+    // If paid, refund the full balance. The order is already cancelled, so a
+    // failed refund is left for an admin to retry rather than undone.
+    if (updated.paymentStatus === 'PAID') {
+      try {
+        await refundRemainingBalance(id, reason || 'Cancelled by customer');
+        updated = await prisma.order.findUniqueOrThrow({ where: { id } });
+      } catch (error: any) {
+        console.error(`Refund for cancelled order ${order.orderNumber} failed:`, error);
+        await sendAdminAlert(
+          `Refund failed for cancelled order #${order.orderNumber}`,
+          `The customer cancelled the order but the automatic refund failed: ${error.message}. Refund it from the admin panel.`
+        );
       }
     }
 
@@ -465,10 +654,81 @@ router.post('/:id/cancel', authenticate, async (req, res, next) => {
   }
 });
 
+// ===================
+// ADMIN: LIST REFUNDS
+// ===================
+router.get('/:id/refunds', authenticate, requirePermission('orders:read'), async (req, res, next) => {
+  try {
+    const refunds = await prisma.refund.findMany({
+      where: { orderId: req.params.id },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        items: { include: { orderItem: { select: { name: true, sku: true } } } },
+        createdBy: { select: { firstName: true, lastName: true, email: true } },
+      }
+    });
+
+    res.json({ refunds });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// ADMIN: CREATE REFUND
+// ===================
+const refundSchema = z.object({
+  items: z.array(z.object({
+    orderItemId: z.string().min(1),
+    quantity: z.number().int().positive(),
+  })).optional(),
+  amount: z.number().positive().optional(),
+  includeShipping: z.boolean().optional(),
+  restock: z.boolean().optional(),
+  reason: z.string().max(500).optional(),
+}).refine(
+  (data) => (data.items && data.items.length > 0) || data.amount || data.includeShipping,
+  { message: 'Specify items, shipping or an amount to refund' }
+);
+
+router.post('/:id/refunds', authenticate, requirePermission('orders:refund'), validate(refundSchema), async (req, res, next) => {
+  try {
+    const { items, amount, includeShipping, restock, reason } = req.body;
+
+    const refund = await createRefund(req.params.id, {
+      items,
+      amount,
+      includeShipping,
+      restock,
+      reason,
+      createdById: req.userId,
+    });
+
+    await recordAudit(req, {
+      action: 'order.refund',
+      entityType: 'Order',
+      entityId: req.params.id,
+      after: { refund, request: req.body },
+    });
+
+    res.status(201).json({ refund });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // ===================
 // ADMIN: UPDATE ORDER STATUS
 // ===================
-router.patch('/:id/status', authenticate, isAdmin, async (req, res, next) => {
+// Refunds go through the refund endpoints, which keep the payment status
+// and refunded amount in step
+const statusSchema = z.object({
+  status: z.enum(['CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED']),
+  trackingNumber: z.string().min(1).optional(),
+  note: z.string().max(500).optional(),
+});
+
+router.patch('/:id/status', authenticate, requirePermission('orders:write'), validate(statusSchema), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { status, trackingNumber, note } = req.body;
@@ -481,36 +741,32 @@ router.patch('/:id/status', authenticate, isAdmin, async (req, res, next) => {
       return res.status(404).json({ error: 'Order not found' });
     }
 
-    const updateData: any = {
-      status,
-      timeline: {
-        create: {
-          status,
-          note: note || `Status updated to ${status}`,
-        }
-      }
-    };
-
-    if (status === 'SHIPPED' && trackingNumber) {
-      updateData.trackingNumber = trackingNumber;
-      updateData.shippedAt = new Date();
+    if (trackingNumber && status !== 'SHIPPED') {
+      return res.status(400).json({ error: 'Tracking number can only be set when shipping' });
     }
 
-    if (status === 'DELIVERED') {
-      updateData.deliveredAt = new Date();
-    }
+    // Sends the status email to the customer
+    await transitionOrder(id, {
+      status,
+      note,
+      ...(trackingNumber && { data: { trackingNumber } }),
+    });
 
-    const updated = await prisma.order.update({
+    const updated = await prisma.order.findUniqueOrThrow({
       where: { id },
-      data: updateData,
       include: {
         items: true,
         timeline: { orderBy: { createdAt: 'desc' } },
       }
     });
 
-    // Send notification email
-    // await sendOrderStatusUpdate(order.email, updated);
+    await recordAudit(req, {
+      action: 'order.status_update',
+      entityType: 'Order',
+      entityId: id,
+      before: { status: order.status, trackingNumber: order.trackingNumber },
+      after: { status: updated.status, trackingNumber: updated.trackingNumber },
+    });
 
     res.json({ order: updated });
   } catch (error) {
@@ -521,7 +777,7 @@ router.patch('/:id/status', authenticate, isAdmin, async (req, res, next) => {
 // ===================
 // ADMIN: GET ALL ORDERS
 // ===================
-router.get('/admin/all', authenticate, isAdmin, async (req, res, next) => {
+router.get('/admin/all', authenticate, requirePermission('orders:read'), async (req, res, next) => {
   try {
     const { 
       page = '1', 
@@ -1,8 +1,9 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma';
-import { authenticate, isAdmin } from '../middleware/auth';
+import { authenticate, requirePermission, requireVerifiedEmail } from '../middleware/auth';
 import { validate } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
 
 const router = Router();
 
@@ -279,7 +280,7 @@ const createProductSchema = z.object({
   metaDescription: z.string().optional(),
 });
 
-router.post('/', authenticate, isAdmin, validate(createProductSchema), async (req, res, next) => {
+router.post('/', authenticate, requirePermission('products:write'), validate(createProductSchema), async (req, res, next) => {
   try {
     const data = req.body;
 
@@ -324,6 +325,8 @@ router.post('/', authenticate, isAdmin, validate(createProductSchema), async (re
       }
     });
 
+    await recordAudit(req, { action: 'product.create', entityType: 'Product', entityId: product.id, after: product });
+
     res.status(201).json({ product });
   } catch (error) {
     next(error);
@@ -333,7 +336,7 @@ router.post('/', authenticate, isAdmin, validate(createProductSchema), async (re
 // ===================
 // UPDATE PRODUCT (Admin)
 // ===================
-router.put('/:id', authenticate, isAdmin, async (req, res, next) => {
+router.put('/:id', authenticate, requirePermission('products:write'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const data = req.body;
@@ -383,6 +386,8 @@ router.put('/:id', authenticate, isAdmin, async (req, res, next) => {
       }
     });
 
+    await recordAudit(req, { action: 'product.update', entityType: 'Product', entityId: id, before: existing, after: product });
+
     res.json({ product });
   } catch (error) {
     next(error);
@@ -392,7 +397,7 @@ router.put('/:id', authenticate, isAdmin, async (req, res, next) => {
 // ===================
 // DELETE PRODUCT (Admin)
 // ===================
-router.delete('/:id', authenticate, isAdmin, async (req, res, next) => {
+router.delete('/:id', authenticate, requirePermission('products:write'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -411,6 +416,8 @@ router.delete('/:id', authenticate, isAdmin, async (req, res, next) => {
       data: { isActive: false }
     });
 
+    await recordAudit(req, { action: 'product.delete', entityType: 'Product', entityId: id, before: product });
+
     res.json({ message: 'Product deleted successfully' });
   } catch (error) {
     next(error);
@@ -426,7 +433,7 @@ const reviewSchema = z.object({
   content: z.string().optional(),
 });
 
-router.post('/:id/reviews', authenticate, validate(reviewSchema), async (req, res, next) => {
+router.post('/:id/reviews', authenticate, requireVerifiedEmail, validate(reviewSchema), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { rating, title, content } = req.body;
@@ -0,0 +1,532 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { authenticate, canActAsStaff, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { generateRmaNumber } from '../utils/orderNumber';
+import { getSetting } from '../services/settings';
+import { createRefund } from '../services/refunds';
+import { releaseOrderItemStock } from '../services/inventory';
+import { recordAudit } from '../services/audit';
+import { sendReturnStatusUpdate, sendAdminAlert } from '../services/email';
+
+const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const returnInclude = {
+  items: {
+    include: {
+      orderItem: { select: { name: true, sku: true, price: true, quantity: true } }
+    }
+  },
+  order: { select: { id: true, orderNumber: true, email: true, status: true } },
+  refund: true,
+};
+
+// Load a return, checking that a customer only sees their own
+const findReturn = async (id: string, userId?: string, isStaff = false) => {
+  const returnRequest = await prisma.returnRequest.findUnique({
+    where: { id },
+    include: returnInclude,
+  });
+
+  if (!returnRequest) return null;
+
+  if (!isStaff && returnRequest.userId !== userId) return null;
+
+  return returnRequest;
+};
+
+type ReturnWithDetails = Prisma.ReturnRequestGetPayload<{ include: typeof returnInclude }>;
+
+// Notify the customer and note the change on the order
+const recordReturnUpdate = async (returnRequest: ReturnWithDetails, note: string) => {
+  await prisma.orderTimeline.create({
+    data: {
+      orderId: returnRequest.order.id,
+      status: returnRequest.order.status,
+      note,
+    }
+  });
+
+  await sendReturnStatusUpdate(returnRequest.order.email, returnRequest, returnRequest.order);
+};
+
+// ===================
+// CREATE RETURN REQUEST
+// ===================
+const createReturnSchema = z.object({
+  orderId: z.string().min(1),
+  reason: z.string().min(1).max(500),
+  note: z.string().max(1000).optional(),
+  items: z.array(z.object({
+    orderItemId: z.string().min(1),
+    quantity: z.number().int().positive(),
+    reason: z.string().max(500).optional(),
+  })).min(1),
+});
+
+router.post('/', authenticate, validate(createReturnSchema), async (req, res, next) => {
+  try {
+    const { orderId, reason, note, items }: z.infer<typeof createReturnSchema> = req.body;
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: true,
+        refunds: {
+          where: { status: { not: 'FAILED' } },
+          include: { items: true },
+        },
+        returns: {
+          where: { status: { in: ['REQUESTED', 'APPROVED', 'RECEIVED'] } },
+          include: { items: true },
+        },
+      }
+    });
+
+    if (!order || order.userId !== req.userId) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    if (order.status !== 'DELIVERED') {
+      return res.status(400).json({ error: 'Only delivered orders can be returned' });
+    }
+
+    const windowDays = Number(await getSetting('return_window_days', 14));
+    const deliveredAt = order.deliveredAt || order.updatedAt;
+    if (Date.now() > deliveredAt.getTime() + windowDays * DAY_MS) {
+      return res.status(400).json({
+        error: `Returns must be requested within ${windowDays} days of delivery`
+      });
+    }
+
+    for (const requested of items) {
+      const orderItem = order.items.find(i => i.id === requested.orderItemId);
+      if (!orderItem) {
+        return res.status(400).json({ error: `Item ${requested.orderItemId} is not part of this order` });
+      }
+
+      // Units already refunded, or waiting on an open return, can't be returned again
+      const refunded = order.refunds
+        .flatMap(r => r.items)
+        .filter(i => i.orderItemId === orderItem.id)
+        .reduce((sum, i) => sum + i.quantity, 0);
+      const pending = order.returns
+        .flatMap(r => r.items)
+        .filter(i => i.orderItemId === orderItem.id)
+        .reduce((sum, i) => sum + i.quantity, 0);
+      const returnable = orderItem.quantity - refunded - pending;
+
+      if (requested.quantity > returnable) {
+        return res.status(400).json({
+          error: `Only ${Math.max(returnable, 0)} of ${orderItem.name} can be returned`
+        });
+      }
+    }
+
+    const returnRequest = await prisma.returnRequest.create({
+      data: {
+        rmaNumber: generateRmaNumber(),
+        orderId,
+        userId: req.userId,
+        reason,
+        customerNote: note,
+        items: {
+          create: items.map(item => ({
+            orderItemId: item.orderItemId,
+            quantity: item.quantity,
+            reason: item.reason,
+          }))
+        },
+      },
+      include: returnInclude,
+    });
+
+    await recordReturnUpdate(returnRequest, `Return ${returnRequest.rmaNumber} requested: ${reason}`);
+    await sendAdminAlert(
+      `Return requested for order #${order.orderNumber}`,
+      `${order.email} opened return ${returnRequest.rmaNumber}: ${reason}`
+    );
+
+    res.status(201).json({ return: returnRequest });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// GET USER RETURNS
+// ===================
+router.get('/', authenticate, async (req, res, next) => {
+  try {
+    const returns = await prisma.returnRequest.findMany({
+      where: { userId: req.userId },
+      orderBy: { createdAt: 'desc' },
+      include: returnInclude,
+    });
+
+    res.json({ returns });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// ADMIN: GET ALL RETURNS
+// ===================
+router.get('/admin/all', authenticate, requirePermission('returns:read'), async (req, res, next) => {
+  try {
+    const { page = '1', limit = '20', status, search } = req.query;
+
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+
+    const where: any = {};
+
+    if (status) where.status = status;
+
+    if (search) {
+      where.OR = [
+        { rmaNumber: { contains: search, mode: 'insensitive' } },
+        { order: { orderNumber: { contains: search, mode: 'insensitive' } } },
+        { order: { email: { contains: search, mode: 'insensitive' } } },
+      ];
+    }
+
+    const [returns, total] = await Promise.all([
+      prisma.returnRequest.findMany({
+        where,
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+        include: returnInclude,
+      }),
+      prisma.returnRequest.count({ where })
+    ]);
+
+    res.json({
+      returns,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// GET SINGLE RETURN
+// ===================
+router.get('/:id', authenticate, async (req, res, next) => {
+  try {
+    const returnRequest = await findReturn(req.params.id, req.userId, canActAsStaff(req, 'returns:read'));
+
+    if (!returnRequest) {
+      return res.status(404).json({ error: 'Return not found' });
+    }
+
+    res.json({ return: returnRequest });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// CANCEL RETURN (User)
+// ===================
+router.post('/:id/cancel', authenticate, async (req, res, next) => {
+  try {
+    const returnRequest = await findReturn(req.params.id, req.userId);
+
+    if (!returnRequest) {
+      return res.status(404).json({ error: 'Return not found' });
+    }
+
+    if (!['REQUESTED', 'APPROVED'].includes(returnRequest.status)) {
+      return res.status(400).json({ error: 'Return can no longer be cancelled' });
+    }
+
+    const updated = await prisma.returnRequest.update({
+      where: { id: returnRequest.id },
+      data: { status: 'CANCELLED' },
+      include: returnInclude,
+    });
+
+    await recordReturnUpdate(updated, `Return ${updated.rmaNumber} cancelled by customer`);
+
+    res.json({ return: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// ADMIN: APPROVE RETURN
+// ===================
+const noteSchema = z.object({
+  note: z.string().max(1000).optional(),
+});
+
+router.post('/:id/approve', authenticate, requirePermission('returns:write'), validate(noteSchema), async (req, res, next) => {
+  try {
+    const returnRequest = await findReturn(req.params.id, req.userId, true);
+
+    if (!returnRequest) {
+      return res.status(404).json({ error: 'Return not found' });
+    }
+
+    if (returnRequest.status !== 'REQUESTED') {
+      return res.status(400).json({ error: `Return is already ${returnRequest.status.toLowerCase()}` });
+    }
+
+    const updated = await prisma.returnRequest.update({
+      where: { id: returnRequest.id },
+      data: {
+        status: 'APPROVED',
+        approvedAt: new Date(),
+        adminNote: req.body.note,
+      },
+      include: returnInclude,
+    });
+
+    await recordReturnUpdate(updated, `Return ${updated.rmaNumber} approved`);
+    await recordAudit(req, {
+      action: 'return.approve',
+      entityType: 'ReturnRequest',
+      entityId: updated.id,
+      before: returnRequest,
+      after: updated,
+    });
+
+    res.json({ return: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// ADMIN: REJECT RETURN
+// ===================
+const rejectSchema = z.object({
+  note: z.string().min(1).max(1000),
+});
+
+router.post('/:id/reject', authenticate, requirePermission('returns:write'), validate(rejectSchema), async (req, res, next) => {
+  try {
+    const returnRequest = await findReturn(req.params.id, req.userId, true);
+
+    if (!returnRequest) {
+      return res.status(404).json({ error: 'Return not found' });
+    }
+
+    if (!['REQUESTED', 'APPROVED', 'RECEIVED'].includes(returnRequest.status)) {
+      return res.status(400).json({ error: `Return is already ${returnRequest.status.toLowerCase()}` });
+    }
+
+    const updated = await prisma.returnRequest.update({
+      where: { id: returnRequest.id },
+      data: {
+        status: 'REJECTED',
+        rejectedAt: new Date(),
+        adminNote: req.body.note,
+      },
+      include: returnInclude,
+    });
+
+    await recordReturnUpdate(updated, `Return ${updated.rmaNumber} rejected: ${req.body.note}`);
+    await recordAudit(req, {
+      action: 'return.reject',
+      entityType: 'ReturnRequest',
+      entityId: updated.id,
+      before: returnRequest,
+      after: updated,
+    });
+
+    res.json({ return: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// ADMIN: RECEIVE RETURN
+// ===================
+// Records the condition of each returned item. Items marked for restock
+// (by default those that arrive new or opened) go back into stock when the
+// return is refunded.
+const receiveSchema = z.object({
+  items: z.array(z.object({
+    returnItemId: z.string().min(1),
+    condition: z.enum(['NEW', 'OPENED', 'DAMAGED', 'DEFECTIVE']),
+    restock: z.boolean().optional(),
+  })).min(1),
+  note: z.string().max(1000).optional(),
+});
+
+router.post('/:id/receive', authenticate, requirePermission('returns:write'), validate(receiveSchema), async (req, res, next) => {
+  try {
+    const { items, note }: z.infer<typeof receiveSchema> = req.body;
+
+    const returnRequest = await findReturn(req.params.id, req.userId, true);
+
+    if (!returnRequest) {
+      return res.status(404).json({ error: 'Return not found' });
+    }
+
+    if (returnRequest.status !== 'APPROVED') {
+      return res.status(400).json({ error: 'Only approved returns can be received' });
+    }
+
+    const missing = returnRequest.items.filter(
+      item => !items.some(i => i.returnItemId === item.id)
+    );
+    if (missing.length > 0 || items.length !== returnRequest.items.length) {
+      return res.status(400).json({ error: 'Record the condition of every item in the return' });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      for (const item of items) {
+        await tx.returnItem.update({
+          where: { id: item.returnItemId },
+          data: {
+            condition: item.condition,
+            restock: item.restock ?? ['NEW', 'OPENED'].includes(item.condition),
+          }
+        });
+      }
+
+      return tx.returnRequest.update({
+        where: { id: returnRequest.id },
+        data: {
+          status: 'RECEIVED',
+          receivedAt: new Date(),
+          ...(note && { adminNote: note }),
+        },
+        include: returnInclude,
+      });
+    });
+
+    await recordReturnUpdate(updated, `Return ${updated.rmaNumber} received`);
+    await recordAudit(req, {
+      action: 'return.receive',
+      entityType: 'ReturnRequest',
+      entityId: updated.id,
+      before: returnRequest,
+      after: updated,
+    });
+
+    res.json({ return: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// ADMIN: REFUND RETURN
+// ===================
+const refundReturnSchema = z.object({
+  amount: z.number().positive().optional(), // Overrides the calculated refund, e.g. for damaged items
+  includeShipping: z.boolean().optional(),
+  note: z.string().max(500).optional(),
+});
+
+router.post('/:id/refund', authenticate, requirePermission('orders:refund'), validate(refundReturnSchema), async (req, res, next) => {
+  try {
+    const { amount, includeShipping, note } = req.body;
+
+    const returnRequest = await findReturn(req.params.id, req.userId, true);
+
+    if (!returnRequest) {
+      return res.status(404).json({ error: 'Return not found' });
+    }
+
+    if (returnRequest.status !== 'RECEIVED') {
+      return res.status(400).json({ error: 'Only received returns can be refunded' });
+    }
+
+    // Claim the return so a double submit can't refund it twice
+    const claimed = await prisma.returnRequest.updateMany({
+      where: { id: returnRequest.id, status: 'RECEIVED', refundId: null },
+      data: { status: 'REFUNDED', refundedAt: new Date() }
+    });
+    if (claimed.count === 0) {
+      return res.status(409).json({ error: 'Return is already being refunded' });
+    }
+
+    let refund;
+    try {
+      refund = await createRefund(returnRequest.orderId, {
+        items: returnRequest.items.map(item => ({
+          orderItemId: item.orderItemId,
+          quantity: item.quantity,
+        })),
+        amount,
+        includeShipping,
+        reason: note || `Return ${returnRequest.rmaNumber}`,
+        createdById: req.userId,
+      });
+    } catch (error) {
+      await prisma.returnRequest.update({
+        where: { id: returnRequest.id },
+        data: { status: 'RECEIVED', refundedAt: null }
+      });
+      throw error;
+    }
+
+    const orderItems = await prisma.orderItem.findMany({
+      where: { id: { in: returnRequest.items.filter(i => i.restock).map(i => i.orderItemId) } }
+    });
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const restocked = await releaseOrderItemStock(
+        tx,
+        returnRequest.orderId,
+        returnRequest.items
+          .filter(item => item.restock)
+          .map(item => {
+            const orderItem = orderItems.find(i => i.id === item.orderItemId)!;
+            return {
+              productId: orderItem.productId,
+              variantId: orderItem.variantId,
+              quantity: item.quantity,
+            };
+          })
+      );
+
+      if (restocked > 0) {
+        await tx.refund.update({
+          where: { id: refund.id },
+          data: { restocked: true }
+        });
+      }
+
+      return tx.returnRequest.update({
+        where: { id: returnRequest.id },
+        data: { refundId: refund.id },
+        include: returnInclude,
+      });
+    });
+
+    await recordReturnUpdate(updated, `Return ${updated.rmaNumber} refunded`);
+    await recordAudit(req, {
+      action: 'return.refund',
+      entityType: 'ReturnRequest',
+      entityId: updated.id,
+      before: returnRequest,
+      after: updated,
+    });
+
+    res.json({ return: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
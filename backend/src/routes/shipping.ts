@@ -0,0 +1,320 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { optionalAuth, authenticate, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
+import { getShippingOptions, getShippingWeight } from '../services/shipping';
+import { getCartLines, getItemLines } from '../services/pricing';
+
+const router = Router();
+
+// ===================
+// QUOTE (Checkout)
+// ===================
+// Prices the current cart, or the items sent in the body, for an address
+const quoteSchema = z.object({
+  country: z.string().min(1),
+  city: z.string().optional(),
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    variantId: z.string().optional().nullable(),
+    quantity: z.number().int().positive(),
+  })).optional(),
+});
+
+router.post('/quote', optionalAuth, validate(quoteSchema), async (req, res, next) => {
+  try {
+    const { country, city, items } = req.body;
+
+    const sessionId = req.cookies?.cart_session || req.headers['x-cart-session'];
+    const lines = items && items.length > 0
+      ? await getItemLines(items)
+      : await getCartLines({ userId: req.userId, sessionId });
+
+    const subtotal = lines.reduce((sum, line) =>
+      sum + Number(line.variant ? line.variant.price : line.product.price) * line.quantity, 0);
+    const weight = getShippingWeight(lines);
+
+    const { zone, options } = await getShippingOptions({ country, city }, subtotal, weight);
+
+    res.json({
+      zone: zone ? { id: zone.id, name: zone.name } : null,
+      subtotal,
+      weight,
+      options,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// ADMIN: ZONES
+// ===================
+const zoneSchema = z.object({
+  name: z.string().min(1),
+  countries: z.array(z.string().min(1)).optional(),
+  cities: z.array(z.string().min(1)).optional(),
+  priority: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+router.get('/zones', authenticate, requirePermission('shipping:write'), async (req, res, next) => {
+  try {
+    const zones = await prisma.shippingZone.findMany({
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      include: {
+        rates: {
+          include: { method: { select: { code: true, name: true } } },
+          orderBy: [{ methodId: 'asc' }, { price: 'asc' }],
+        }
+      }
+    });
+
+    res.json({ zones });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/zones', authenticate, requirePermission('shipping:write'), validate(zoneSchema), async (req, res, next) => {
+  try {
+    const data = req.body;
+
+    const zone = await prisma.shippingZone.create({
+      data: {
+        name: data.name,
+        countries: data.countries || [],
+        cities: data.cities || [],
+        priority: data.priority,
+        isActive: data.isActive,
+      }
+    });
+
+    await recordAudit(req, { action: 'shipping_zone.create', entityType: 'ShippingZone', entityId: zone.id, after: zone });
+
+    res.status(201).json({ zone });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/zones/:id', authenticate, requirePermission('shipping:write'), validate(zoneSchema.partial()), async (req, res, next) => {
+  try {
+    const data = req.body;
+
+    const before = await prisma.shippingZone.findUnique({
+      where: { id: req.params.id }
+    });
+
+    const zone = await prisma.shippingZone.update({
+      where: { id: req.params.id },
+      data: {
+        name: data.name,
+        countries: data.countries,
+        cities: data.cities,
+        priority: data.priority,
+        isActive: data.isActive,
+      }
+    });
+
+    await recordAudit(req, { action: 'shipping_zone.update', entityType: 'ShippingZone', entityId: zone.id, before, after: zone });
+
+    res.json({ zone });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/zones/:id', authenticate, requirePermission('shipping:write'), async (req, res, next) => {
+  try {
+    const zone = await prisma.shippingZone.delete({
+      where: { id: req.params.id }
+    });
+
+    await recordAudit(req, { action: 'shipping_zone.delete', entityType: 'ShippingZone', entityId: zone.id, before: zone });
+
+    res.json({ message: 'Shipping zone deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// ADMIN: METHODS
+// ===================
+const methodSchema = z.object({
+  code: z.string().min(1).regex(/^[a-z0-9-_]+$/, 'Use lowercase letters, numbers and dashes'),
+  name: z.string().min(1),
+  description: z.string().optional().nullable(),
+  minDays: z.number().int().nonnegative().optional().nullable(),
+  maxDays: z.number().int().nonnegative().optional().nullable(),
+  isPickup: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+router.get('/methods', authenticate, requirePermission('shipping:write'), async (req, res, next) => {
+  try {
+    const methods = await prisma.shippingMethod.findMany({
+      orderBy: { sortOrder: 'asc' }
+    });
+
+    res.json({ methods });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/methods', authenticate, requirePermission('shipping:write'), validate(methodSchema), async (req, res, next) => {
+  try {
+    const data = req.body;
+
+    const method = await prisma.shippingMethod.create({
+      data: {
+        code: data.code,
+        name: data.name,
+        description: data.description,
+        minDays: data.minDays,
+        maxDays: data.maxDays,
+        isPickup: data.isPickup,
+        isActive: data.isActive,
+        sortOrder: data.sortOrder,
+      }
+    });
+
+    await recordAudit(req, { action: 'shipping_method.create', entityType: 'ShippingMethod', entityId: method.id, after: method });
+
+    res.status(201).json({ method });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/methods/:id', authenticate, requirePermission('shipping:write'), validate(methodSchema.partial()), async (req, res, next) => {
+  try {
+    const data = req.body;
+
+    const before = await prisma.shippingMethod.findUnique({
+      where: { id: req.params.id }
+    });
+
+    const method = await prisma.shippingMethod.update({
+      where: { id: req.params.id },
+      data: {
+        code: data.code,
+        name: data.name,
+        description: data.description,
+        minDays: data.minDays,
+        maxDays: data.maxDays,
+        isPickup: data.isPickup,
+        isActive: data.isActive,
+        sortOrder: data.sortOrder,
+      }
+    });
+
+    await recordAudit(req, { action: 'shipping_method.update', entityType: 'ShippingMethod', entityId: method.id, before, after: method });
+
+    res.json({ method });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Methods used by past orders are kept on those orders by name only
+router.delete('/methods/:id', authenticate, requirePermission('shipping:write'), async (req, res, next) => {
+  try {
+    const method = await prisma.shippingMethod.delete({
+      where: { id: req.params.id }
+    });
+
+    await recordAudit(req, { action: 'shipping_method.delete', entityType: 'ShippingMethod', entityId: method.id, before: method });
+
+    res.json({ message: 'Shipping method deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// ADMIN: RATES
+// ===================
+const rateSchema = z.object({
+  zoneId: z.string().min(1),
+  methodId: z.string().min(1),
+  minWeight: z.number().nonnegative().optional().nullable(),
+  maxWeight: z.number().positive().optional().nullable(),
+  minSubtotal: z.number().nonnegative().optional().nullable(),
+  maxSubtotal: z.number().positive().optional().nullable(),
+  price: z.number().nonnegative(),
+});
+
+router.post('/rates', authenticate, requirePermission('shipping:write'), validate(rateSchema), async (req, res, next) => {
+  try {
+    const data = req.body;
+
+    const rate = await prisma.shippingRate.create({
+      data: {
+        zoneId: data.zoneId,
+        methodId: data.methodId,
+        minWeight: data.minWeight,
+        maxWeight: data.maxWeight,
+        minSubtotal: data.minSubtotal,
+        maxSubtotal: data.maxSubtotal,
+        price: data.price,
+      }
+    });
+
+    await recordAudit(req, { action: 'shipping_rate.create', entityType: 'ShippingRate', entityId: rate.id, after: rate });
+
+    res.status(201).json({ rate });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/rates/:id', authenticate, requirePermission('shipping:write'), validate(rateSchema.partial()), async (req, res, next) => {
+  try {
+    const data = req.body;
+
+    const before = await prisma.shippingRate.findUnique({
+      where: { id: req.params.id }
+    });
+
+    const rate = await prisma.shippingRate.update({
+      where: { id: req.params.id },
+      data: {
+        zoneId: data.zoneId,
+        methodId: data.methodId,
+        minWeight: data.minWeight,
+        maxWeight: data.maxWeight,
+        minSubtotal: data.minSubtotal,
+        maxSubtotal: data.maxSubtotal,
+        price: data.price,
+      }
+    });
+
+    await recordAudit(req, { action: 'shipping_rate.update', entityType: 'ShippingRate', entityId: rate.id, before, after: rate });
+
+    res.json({ rate });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/rates/:id', authenticate, requirePermission('shipping:write'), async (req, res, next) => {
+  try {
+    const rate = await prisma.shippingRate.delete({
+      where: { id: req.params.id }
+    });
+
+    await recordAudit(req, { action: 'shipping_rate.delete', entityType: 'ShippingRate', entityId: rate.id, before: rate });
+
+    res.json({ message: 'Shipping rate deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { v2 as cloudinary } from 'cloudinary';
-import { authenticate, isAdmin } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { recordAudit } from '../services/audit';
 
 const router = Router();
 
@@ -54,7 +55,7 @@ const uploadToCloudinary = (buffer: Buffer, folder: string): Promise<any> => {
 router.post(
   '/product-image',
   authenticate,
-  isAdmin,
+  requirePermission('products:write'),
   upload.single('image'),
   async (req, res, next) => {
     try {
@@ -64,6 +65,13 @@ router.post(
 
       const result = await uploadToCloudinary(req.file.buffer, 'products');
 
+      await recordAudit(req, {
+        action: 'image.upload',
+        entityType: 'Image',
+        entityId: result.public_id,
+        after: { url: result.secure_url, folder: 'products' },
+      });
+
       res.json({
         url: result.secure_url,
         publicId: result.public_id,
@@ -82,7 +90,7 @@ router.post(
 router.post(
   '/product-images',
   authenticate,
-  isAdmin,
+  requirePermission('products:write'),
   upload.array('images', 10),
   async (req, res, next) => {
     try {
@@ -98,6 +106,15 @@ router.post(
 
       const results = await Promise.all(uploadPromises);
 
+      for (const result of results) {
+        await recordAudit(req, {
+          action: 'image.upload',
+          entityType: 'Image',
+          entityId: result.public_id,
+          after: { url: result.secure_url, folder: 'products' },
+        });
+      }
+
       res.json({
         images: results.map((result) => ({
           url: result.secure_url,
@@ -118,7 +135,7 @@ router.post(
 router.post(
   '/category-image',
   authenticate,
-  isAdmin,
+  requirePermission('categories:write'),
   upload.single('image'),
   async (req, res, next) => {
     try {
@@ -128,6 +145,13 @@ router.post(
 
       const result = await uploadToCloudinary(req.file.buffer, 'categories');
 
+      await recordAudit(req, {
+        action: 'image.upload',
+        entityType: 'Image',
+        entityId: result.public_id,
+        after: { url: result.secure_url, folder: 'categories' },
+      });
+
       res.json({
         url: result.secure_url,
         publicId: result.public_id,
@@ -186,12 +210,14 @@ router.post(
 // ===================
 // DELETE IMAGE (Admin)
 // ===================
-router.delete('/image/:publicId', authenticate, isAdmin, async (req, res, next) => {
+router.delete('/image/:publicId', authenticate, requirePermission('products:write'), async (req, res, next) => {
   try {
     const { publicId } = req.params;
     
     await cloudinary.uploader.destroy(publicId);
-    
+
+    await recordAudit(req, { action: 'image.delete', entityType: 'Image', entityId: publicId });
+
     res.json({ message: 'Image deleted' });
   } catch (error) {
     next(error);
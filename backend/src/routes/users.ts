@@ -1,8 +1,12 @@
 import { Router } from 'express';
+import bcrypt from 'bcryptjs';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma';
 import { authenticate } from '../middleware/auth';
 import { validate } from '../middleware/validate';
+import { collectPersonalData, personalDataToZip } from '../services/dataExport';
+import { cancelAccountDeletion, scheduleAccountDeletion } from '../services/accountDeletion';
+import { sendAccountDeletionScheduled } from '../services/email';
 
 const router = Router();
 
@@ -226,4 +230,78 @@ router.delete('/wishlist/:productId', async (req, res, next) => {
   }
 });
 
+// ===================
+// EXPORT PERSONAL DATA
+// ===================
+// ?format=zip for one JSON file per section, JSON otherwise
+router.get('/me/export', async (req, res, next) => {
+  try {
+    const data = await collectPersonalData(req.userId!);
+    const filename = `zamane-data-${data.exportedAt.slice(0, 10)}`;
+
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (req.query.format === 'zip') {
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.zip"`);
+      return res.send(personalDataToZip(data));
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+    res.json(data);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ===================
+// ACCOUNT DELETION
+// ===================
+const deleteAccountSchema = z.object({
+  password: z.string().optional(),
+});
+
+// Schedules the deletion after a grace period (see services/accountDeletion)
+router.post('/me/deletion', validate(deleteAccountSchema), async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { id: true, role: true, password: true, deletionScheduledFor: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.deletionScheduledFor) {
+      return res.status(400).json({ error: 'Account deletion is already scheduled' });
+    }
+
+    // Someone at an unlocked computer shouldn't be able to do this
+    if (user.password && !(req.body.password && await bcrypt.compare(req.body.password, user.password))) {
+      return res.status(400).json({ error: 'Password is incorrect' });
+    }
+
+    const scheduled = await scheduleAccountDeletion(user);
+
+    sendAccountDeletionScheduled(scheduled.email, scheduled.firstName, scheduled.deletionScheduledFor!).catch(() => {});
+
+    res.json({
+      message: 'Account deletion scheduled',
+      deletionScheduledFor: scheduled.deletionScheduledFor,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/me/deletion', async (req, res, next) => {
+  try {
+    await cancelAccountDeletion(req.userId!);
+    res.json({ message: 'Account deletion cancelled' });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
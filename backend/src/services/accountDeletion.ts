@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { OrderStatus, ReturnStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getSetting } from './settings';
+import { isStaffRole } from './permissions';
+import { sendAccountDeleted } from './email';
+
+// Days between the request and the deletion, during which the customer can
+// change their mind. Configurable with the `account_deletion_grace_days`
+// setting.
+const DEFAULT_GRACE_DAYS = 30;
+
+// The customer's details are still needed to finish these
+const OPEN_ORDER_STATUSES: OrderStatus[] = ['PENDING', 'CONFIRMED', 'PROCESSING', 'SHIPPED'];
+const OPEN_RETURN_STATUSES: ReturnStatus[] = ['REQUESTED', 'APPROVED', 'RECEIVED'];
+
+export class AccountDeletionError extends Error {
+  statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountDeletionError';
+  }
+}
+
+// Returns why the account can't be deleted right now, or null if it can
+export const findDeletionBlocker = async (user: { id: string; role: string }) => {
+  if (isStaffRole(user.role)) {
+    return 'Staff accounts have to be removed from the staff before they can be deleted';
+  }
+
+  const [openOrders, openReturns] = await Promise.all([
+    prisma.order.count({ where: { userId: user.id, status: { in: OPEN_ORDER_STATUSES } } }),
+    prisma.returnRequest.count({ where: { userId: user.id, status: { in: OPEN_RETURN_STATUSES } } }),
+  ]);
+
+  if (openOrders > 0) {
+    return `${openOrders} order(s) are still in progress`;
+  }
+  if (openReturns > 0) {
+    return `${openReturns} return(s) are still open`;
+  }
+  return null;
+};
+
+// ===================
+// REQUEST / CANCEL
+// ===================
+// Open orders don't stop the request: they have the grace period to finish
+export const scheduleAccountDeletion = async (user: { id: string; role: string }) => {
+  if (isStaffRole(user.role)) {
+    throw new AccountDeletionError('Staff accounts have to be removed from the staff before they can be deleted');
+  }
+
+  const graceDays = await getSetting('account_deletion_grace_days', DEFAULT_GRACE_DAYS);
+  const now = new Date();
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: {
+      deletionRequestedAt: now,
+      deletionScheduledFor: new Date(now.getTime() + graceDays * 24 * 60 * 60 * 1000),
+    },
+    select: { email: true, firstName: true, deletionRequestedAt: true, deletionScheduledFor: true },
+  });
+};
+
+export const cancelAccountDeletion = (userId: string) =>
+  prisma.user.update({
+    where: { id: userId },
+    data: { deletionRequestedAt: null, deletionScheduledFor: null },
+  });
+
+// ===================
+// DELETE
+// ===================
+// Deletes the user and everything that is only theirs (addresses, cart,
+// wishlist, sessions, linked accounts). Orders are kept for the books but
+// no longer point to the customer or hold their contact details; reviews
+// stay up without an author. Throws if something still needs the account.
+export const deleteAccount = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, firstName: true, role: true },
+  });
+
+  if (!user) {
+    throw new AccountDeletionError('Account not found');
+  }
+
+  const blocker = await findDeletionBlocker(user);
+  if (blocker) {
+    throw new AccountDeletionError(`The account can't be deleted yet: ${blocker}`);
+  }
+
+  // Same placeholder on all their records, so orders can still be grouped
+  const placeholderEmail = `deleted-${crypto.randomBytes(8).toString('hex')}@deleted.invalid`;
+
+  await prisma.$transaction(async (tx) => {
+    await tx.order.updateMany({
+      where: { userId },
+      data: { userId: null, email: placeholderEmail, phone: null, notes: null, shippingAddressId: null },
+    });
+    await tx.returnRequest.updateMany({
+      where: { userId },
+      data: { userId: null, customerNote: null },
+    });
+    await tx.discountRedemption.updateMany({
+      where: { userId },
+      data: { userId: null, email: placeholderEmail },
+    });
+    await tx.cartRecovery.updateMany({
+      where: { userId },
+      data: { userId: null, email: placeholderEmail },
+    });
+    await tx.user.delete({ where: { id: userId } });
+  });
+
+  console.log(`Account ${userId} deleted`);
+
+  sendAccountDeleted(user.email, user.firstName).catch(() => {});
+};
+
+// Runs from the `delete-scheduled-accounts` job. Accounts that can't be
+// deleted yet stay scheduled and are tried again on the next run.
+export const deleteScheduledAccounts = async () => {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: new Date() } },
+    select: { id: true },
+    orderBy: { deletionScheduledFor: 'asc' },
+    take: 50,
+  });
+
+  let deleted = 0;
+
+  for (const user of due) {
+    try {
+      await deleteAccount(user.id);
+      deleted++;
+    } catch (error) {
+      console.error(`Scheduled deletion of account ${user.id} postponed:`, (error as Error).message);
+    }
+  }
+
+  if (due.length > 0) {
+    console.log(`Account deletion: ${deleted} deleted, ${due.length - deleted} postponed`);
+  }
+
+  return { deleted, postponed: due.length - deleted };
+};
@@ -0,0 +1,126 @@
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export interface AuditEntry {
+  action: string;       // "<entity>.<verb>", e.g. "product.update"
+  entityType: string;   // Model name, e.g. "Product"
+  entityId?: string | null;
+  before?: unknown;     // The entity before the change (updates, deletes)
+  after?: unknown;      // The entity after the change (creates, updates)
+}
+
+// Never copied into the log
+const REDACTED_FIELDS = new Set(['password', 'twoFactorSecret', 'token', 'refreshToken', 'tokenHash', 'codeHash']);
+
+// JSON-safe copy: Decimals and Dates become strings
+const toJson = (value: unknown): any =>
+  value === undefined || value === null
+    ? null
+    : JSON.parse(JSON.stringify(value, (key, v) => (REDACTED_FIELDS.has(key) ? '[redacted]' : v)));
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keeps only the fields whose value changed. Fields only one side has
+// (e.g. relations the update included in its result) are ignored.
+const diffSnapshots = (before: Record<string, unknown>, after: Record<string, unknown>) => {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const key of Object.keys(before)) {
+    if (key === 'updatedAt' || !(key in after)) continue;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key];
+      changedAfter[key] = after[key];
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+};
+
+// ===================
+// RECORD
+// ===================
+// Called by routes after a privileged change succeeded. A failure to write
+// the log is reported but doesn't undo or fail the change itself.
+export const recordAudit = async (req: Request, entry: AuditEntry) => {
+  try {
+    let before = toJson(entry.before);
+    let after = toJson(entry.after);
+    if (isPlainObject(before) && isPlainObject(after)) {
+      ({ before, after } = diffSnapshots(before, after));
+    }
+
+    const actor = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { email: true, role: true },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: req.userId,
+        actorEmail: actor?.email || 'unknown',
+        actorRole: actor?.role || req.userRole || 'unknown',
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        before: before ?? Prisma.DbNull,
+        after: after ?? Prisma.DbNull,
+        ipAddress: req.ip || null,
+        userAgent: req.headers['user-agent']?.slice(0, 500) || null,
+      }
+    });
+  } catch (error) {
+    console.error(`Failed to write audit log for ${entry.action}:`, error);
+  }
+};
+
+// ===================
+// QUERY
+// ===================
+export interface AuditFilters {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: string;
+  to?: string;
+}
+
+// `action` matches a prefix, so "product." finds every product change
+export const buildAuditWhere = (filters: AuditFilters): Prisma.AuditLogWhereInput => ({
+  ...(filters.actorId && { actorId: filters.actorId }),
+  ...(filters.action && { action: { startsWith: filters.action } }),
+  ...(filters.entityType && { entityType: filters.entityType }),
+  ...(filters.entityId && { entityId: filters.entityId }),
+  ...((filters.from || filters.to) && {
+    createdAt: {
+      ...(filters.from && { gte: new Date(filters.from) }),
+      ...(filters.to && { lte: new Date(filters.to) }),
+    }
+  }),
+});
+
+// ===================
+// EXPORT
+// ===================
+const CSV_COLUMNS = [
+  'createdAt', 'actorEmail', 'actorRole', 'action', 'entityType', 'entityId', 'before', 'after', 'ipAddress', 'userAgent',
+] as const;
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value)
+    : String(value);
+  // Leading =, +, - or @ would run as a formula when opened in a spreadsheet
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const auditLogsToCsv = (logs: Array<Record<(typeof CSV_COLUMNS)[number], unknown>>) =>
+  [
+    CSV_COLUMNS.join(','),
+    ...logs.map(log => CSV_COLUMNS.map(column => csvCell(log[column])).join(',')),
+  ].join('\n');
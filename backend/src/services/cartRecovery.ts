@@ -0,0 +1,315 @@
+import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getSetting } from './settings';
+import { getCartLines } from './pricing';
+import { sendCartRecovery } from './email';
+import { generateRecoveryCode } from '../utils/orderNumber';
+
+type Tx = Prisma.TransactionClient;
+
+// Carts idle longer than this are considered gone for good and never emailed
+const MAX_IDLE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// At most one reminder per customer in this period, so a customer who
+// keeps abandoning carts doesn't collect a discount every time
+const REMINDER_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000;
+
+// An order paid this long after a reminder still counts as recovered
+const ATTRIBUTION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const TOKEN_PURPOSE = 'cart_recovery';
+const TOKEN_TTL = '14d';
+
+export class CartRecoveryError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'CartRecoveryError';
+  }
+}
+
+export interface RecoveryItem {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+}
+
+// Restore links carry a signed recovery ID rather than the cart itself
+export const signRecoveryToken = (recoveryId: string) =>
+  jwt.sign({ sub: recoveryId, purpose: TOKEN_PURPOSE }, process.env.JWT_SECRET!, { expiresIn: TOKEN_TTL });
+
+const verifyRecoveryToken = (token: string) => {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!) as jwt.JwtPayload;
+    if (payload.purpose !== TOKEN_PURPOSE || !payload.sub) {
+      throw new Error('Wrong token purpose');
+    }
+    return payload.sub;
+  } catch (error) {
+    throw new CartRecoveryError('This cart link is invalid or has expired');
+  }
+};
+
+// Guests are only reachable when they got as far as entering an email at
+// checkout
+const getCartContact = async (cart: { userId: string | null; sessionId: string | null }) => {
+  if (cart.userId) {
+    const user = await prisma.user.findUnique({
+      where: { id: cart.userId },
+      select: { email: true, firstName: true },
+    });
+    return user ? { email: user.email, firstName: user.firstName } : null;
+  }
+  if (!cart.sessionId) {
+    return null;
+  }
+
+  const order = await prisma.order.findFirst({
+    where: { cartSessionId: cart.sessionId },
+    orderBy: { createdAt: 'desc' },
+    select: { email: true, shippingAddress: { select: { firstName: true } } },
+  });
+  return order ? { email: order.email, firstName: order.shippingAddress?.firstName || null } : null;
+};
+
+// ===================
+// SEND REMINDERS
+// ===================
+// Finds carts idle for the configured time and emails each owner once per
+// idle period. Returns the number of reminders sent.
+export const sendCartRecoveryEmails = async () => {
+  if (!(await getSetting('cart_recovery_enabled', false))) {
+    return 0;
+  }
+
+  const delayHours = await getSetting('cart_recovery_delay_hours', 4);
+  const discountPercent = await getSetting('cart_recovery_discount_percent', 0);
+  const now = Date.now();
+
+  const carts = await prisma.cartItem.groupBy({
+    by: ['userId', 'sessionId'],
+    _max: { updatedAt: true },
+    having: {
+      updatedAt: {
+        _max: {
+          lt: new Date(now - delayHours * 60 * 60 * 1000),
+          gte: new Date(now - MAX_IDLE_MS),
+        }
+      }
+    },
+  });
+
+  let sent = 0;
+  for (const cart of carts) {
+    // Items without an owner can't be reminded about, and a null owner
+    // would match unrelated orders and recoveries below
+    if (!cart.userId && !cart.sessionId) continue;
+
+    const lastActivity = cart._max.updatedAt!;
+    const owner = cart.userId ? { userId: cart.userId } : { cartSessionId: cart.sessionId };
+
+    const contact = await getCartContact(cart);
+    if (!contact) continue;
+    const email = contact.email.toLowerCase();
+
+    // Already reminded about this cart, or recently about another one
+    const reminded = await prisma.cartRecovery.findFirst({
+      where: {
+        OR: [
+          { ...(cart.userId ? { userId: cart.userId } : { sessionId: cart.sessionId }), sentAt: { gte: lastActivity } },
+          { email, sentAt: { gte: new Date(now - REMINDER_COOLDOWN_MS) } },
+        ]
+      }
+    });
+    if (reminded) continue;
+
+    // The customer checked out since, and the order is paid or in progress
+    const ordered = await prisma.order.findFirst({
+      where: { ...owner, createdAt: { gte: lastActivity }, status: { not: 'CANCELLED' } }
+    });
+    if (ordered) continue;
+
+    const lines = (await getCartLines(cart)).filter(line =>
+      line.product.isActive && (!line.variant || line.variant.isActive)
+    );
+    if (lines.length === 0) continue;
+
+    const items = lines.map(line => ({
+      name: line.product.name + (line.variant ? ` - ${line.variant.name}` : ''),
+      image: line.product.images[0]?.url || null,
+      price: Number(line.variant ? line.variant.price : line.product.price),
+      quantity: line.quantity,
+    }));
+    const cartValue = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+    const recovery = await prisma.$transaction(async (tx) => {
+      const discountCode = discountPercent > 0
+        ? await tx.discountCode.create({
+            data: {
+              code: generateRecoveryCode(),
+              type: 'PERCENTAGE',
+              value: discountPercent,
+              maxUses: 1,
+              maxUsesPerCustomer: 1,
+              expiresAt: new Date(now + ATTRIBUTION_WINDOW_MS),
+            }
+          })
+        : null;
+
+      return tx.cartRecovery.create({
+        data: {
+          userId: cart.userId,
+          sessionId: cart.sessionId,
+          email,
+          items: lines.map(line => ({
+            productId: line.productId,
+            variantId: line.variantId,
+            quantity: line.quantity,
+          })),
+          cartValue,
+          cartUpdatedAt: lastActivity,
+          discountCodeId: discountCode?.id,
+        },
+        include: { discountCode: true },
+      });
+    });
+
+    await sendCartRecovery(email, {
+      firstName: contact.firstName,
+      items,
+      restoreUrl: `${process.env.FRONTEND_URL}/cart/recover?token=${signRecoveryToken(recovery.id)}`,
+      discount: recovery.discountCode
+        ? { code: recovery.discountCode.code, percent: discountPercent, expiresAt: recovery.discountCode.expiresAt! }
+        : null,
+    });
+    sent++;
+  }
+
+  if (sent > 0) {
+    console.log(`Sent ${sent} cart recovery email(s)`);
+  }
+  return sent;
+};
+
+// ===================
+// RESTORE
+// ===================
+// Puts the reminded items back in the visitor's current cart. Items already
+// there keep the larger quantity; products no longer sold are skipped.
+export const restoreRecoveredCart = async (
+  token: string,
+  target: { userId?: string | null; sessionId?: string | null }
+) => {
+  const recoveryId = verifyRecoveryToken(token);
+
+  const recovery = await prisma.cartRecovery.findUnique({
+    where: { id: recoveryId },
+    include: { discountCode: true },
+  });
+  if (!recovery) {
+    throw new CartRecoveryError('This cart link is invalid or has expired');
+  }
+
+  if (!target.userId && !target.sessionId) {
+    throw new CartRecoveryError('No cart session');
+  }
+  const cartOwner = target.userId ? { userId: target.userId } : { sessionId: target.sessionId };
+
+  const items = recovery.items as unknown as RecoveryItem[];
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map(i => i.productId) }, isActive: true },
+    include: { variants: { where: { isActive: true } } },
+  });
+
+  let restored = 0;
+  for (const item of items) {
+    const product = products.find(p => p.id === item.productId);
+    if (!product) continue;
+    if (item.variantId && !product.variants.some(v => v.id === item.variantId)) continue;
+
+    const existing = await prisma.cartItem.findFirst({
+      where: { ...cartOwner, productId: item.productId, variantId: item.variantId }
+    });
+
+    if (existing) {
+      if (existing.quantity < item.quantity) {
+        await prisma.cartItem.update({
+          where: { id: existing.id },
+          data: { quantity: item.quantity }
+        });
+      }
+    } else {
+      await prisma.cartItem.create({
+        data: {
+          ...cartOwner,
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+        }
+      });
+    }
+    restored++;
+  }
+
+  if (recovery.status === 'SENT') {
+    await prisma.cartRecovery.update({
+      where: { id: recovery.id },
+      data: { status: 'CLICKED', clickedAt: new Date() }
+    });
+  }
+
+  const discountCode = recovery.discountCode;
+  const discountUsable = discountCode && discountCode.isActive &&
+    discountCode.usedCount < (discountCode.maxUses ?? Infinity) &&
+    (!discountCode.expiresAt || discountCode.expiresAt > new Date());
+
+  return {
+    restored,
+    discountCode: discountUsable ? discountCode.code : null,
+  };
+};
+
+// ===================
+// ATTRIBUTION
+// ===================
+// Called when an order is paid. Links it to the latest open reminder for
+// the same customer, which is what the dashboard reports as recovered.
+export const attributeCartRecovery = async (
+  tx: Tx,
+  order: { id: string; userId: string | null; email: string; cartSessionId: string | null; total: Prisma.Decimal; createdAt: Date }
+) => {
+  const redemptions = await tx.discountRedemption.findMany({
+    where: { orderId: order.id },
+    select: { discountCodeId: true },
+  });
+
+  const recovery = await tx.cartRecovery.findFirst({
+    where: {
+      status: { in: ['SENT', 'CLICKED'] },
+      sentAt: { gte: new Date(order.createdAt.getTime() - ATTRIBUTION_WINDOW_MS), lte: order.createdAt },
+      OR: [
+        ...(order.userId ? [{ userId: order.userId }] : []),
+        ...(order.cartSessionId ? [{ sessionId: order.cartSessionId }] : []),
+        { email: order.email.toLowerCase() },
+        { discountCodeId: { in: redemptions.map(r => r.discountCodeId) } },
+      ],
+    },
+    orderBy: { sentAt: 'desc' },
+  });
+
+  if (!recovery) {
+    return null;
+  }
+
+  return tx.cartRecovery.update({
+    where: { id: recovery.id },
+    data: {
+      status: 'RECOVERED',
+      orderId: order.id,
+      recoveredAmount: order.total,
+      recoveredAt: new Date(),
+    }
+  });
+};
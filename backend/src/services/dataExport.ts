@@ -0,0 +1,155 @@
+import { prisma } from '../lib/prisma';
+import { createZip } from '../utils/zip';
+
+// ===================
+// COLLECT
+// ===================
+// Everything stored about a customer that they can download from their
+// account. Secrets (password hash, 2FA secret, tokens) are left out.
+export const collectPersonalData = async (userId: string) => {
+  const [profile, addresses, orders, returns, reviews, wishlist, cart, connectedAccounts, sessions] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        phone: true,
+        avatar: true,
+        role: true,
+        emailVerified: true,
+        twoFactorEnabled: true,
+        deletionRequestedAt: true,
+        deletionScheduledFor: true,
+        createdAt: true,
+        updatedAt: true,
+      }
+    }),
+    prisma.address.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.order.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        orderNumber: true,
+        email: true,
+        phone: true,
+        status: true,
+        paymentStatus: true,
+        subtotal: true,
+        shippingCost: true,
+        taxAmount: true,
+        discountAmount: true,
+        total: true,
+        refundedAmount: true,
+        currency: true,
+        notes: true,
+        shippingMethodName: true,
+        trackingNumber: true,
+        shippedAt: true,
+        deliveredAt: true,
+        cancelledAt: true,
+        createdAt: true,
+        shippingAddress: true,
+        items: {
+          select: { name: true, sku: true, price: true, quantity: true, total: true, discountAmount: true, taxAmount: true }
+        },
+        timeline: {
+          select: { status: true, note: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+        refunds: {
+          select: { amount: true, currency: true, reason: true, status: true, createdAt: true }
+        },
+      }
+    }),
+    prisma.returnRequest.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        rmaNumber: true,
+        status: true,
+        reason: true,
+        customerNote: true,
+        createdAt: true,
+        order: { select: { orderNumber: true } },
+        items: {
+          select: { quantity: true, reason: true, orderItem: { select: { name: true, sku: true } } }
+        },
+      }
+    }),
+    prisma.review.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        rating: true,
+        title: true,
+        content: true,
+        isVerified: true,
+        isApproved: true,
+        createdAt: true,
+        product: { select: { name: true, slug: true } },
+      }
+    }),
+    prisma.wishlistItem.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: { createdAt: true, product: { select: { name: true, slug: true } } }
+    }),
+    prisma.cartItem.findMany({
+      where: { userId },
+      select: {
+        quantity: true,
+        createdAt: true,
+        product: { select: { name: true, slug: true } },
+        variant: { select: { name: true, sku: true } },
+      }
+    }),
+    prisma.account.findMany({
+      where: { userId },
+      select: { provider: true, email: true, createdAt: true }
+    }),
+    prisma.session.findMany({
+      where: { userId, revokedAt: null, rotatedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+      select: { userAgent: true, ipAddress: true, createdAt: true, lastUsedAt: true }
+    }),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    addresses,
+    orders,
+    returns,
+    reviews,
+    wishlist,
+    cart,
+    connectedAccounts,
+    sessions,
+  };
+};
+
+export type PersonalData = Awaited<ReturnType<typeof collectPersonalData>>;
+
+// ===================
+// FORMAT
+// ===================
+// One JSON file per section, so the archive opens without tooling
+export const personalDataToZip = (data: PersonalData) =>
+  createZip(
+    Object.entries(data)
+      .filter(([section]) => section !== 'exportedAt')
+      .map(([section, value]) => ({
+        name: `${section}.json`,
+        content: JSON.stringify(value, null, 2),
+      }))
+      .concat({
+        name: 'README.txt',
+        content: `Personal data export from Zamanẻ ps, created ${data.exportedAt}.\n` +
+          'Each file holds one part of your account as JSON.\n',
+      })
+  );
@@ -0,0 +1,211 @@
+import { DiscountCode } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export type DiscountRejection =
+  | 'NOT_FOUND'
+  | 'INACTIVE'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'USAGE_LIMIT'
+  | 'CUSTOMER_LIMIT'
+  | 'MIN_ORDER'
+  | 'NOT_APPLICABLE'
+  | 'NOT_COMBINABLE'
+  | 'DUPLICATE';
+
+export class DiscountError extends Error {
+  statusCode = 400;
+
+  constructor(
+    public code: string,
+    public reason: DiscountRejection,
+    message: string
+  ) {
+    super(message);
+    this.name = 'DiscountError';
+  }
+}
+
+export interface DiscountLine {
+  productId: string;
+  categoryId: string;
+  tagIds: string[];
+  total: number;   // Price × quantity
+  onSale: boolean; // Product has a compareAtPrice above its price
+}
+
+export interface DiscountContext {
+  lines: DiscountLine[];
+  subtotal: number;
+  userId?: string | null;
+  email?: string | null;
+}
+
+export interface AppliedDiscount {
+  discountCode: DiscountCode;
+  amount: number;
+  freeShipping: boolean;
+}
+
+export interface DiscountResult {
+  applied: AppliedDiscount[];
+  discountAmount: number;
+  freeShipping: boolean;
+  lineDiscounts: number[]; // Each line's share, in the same order as the input
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const isEligible = (code: DiscountCode, line: DiscountLine) => {
+  if (code.excludeSaleItems && line.onSale) return false;
+
+  const scoped = code.productIds.length > 0 || code.categoryIds.length > 0 || code.tagIds.length > 0;
+  if (!scoped) return true;
+
+  return code.productIds.includes(line.productId) ||
+    code.categoryIds.includes(line.categoryId) ||
+    line.tagIds.some(tagId => code.tagIds.includes(tagId));
+};
+
+// Redemptions on cancelled orders don't count, so an abandoned checkout
+// doesn't use up the customer's allowance
+const countCustomerRedemptions = (discountCodeId: string, userId?: string | null, email?: string | null) =>
+  prisma.discountRedemption.count({
+    where: {
+      discountCodeId,
+      order: { status: { not: 'CANCELLED' } },
+      OR: [
+        ...(userId ? [{ userId }] : []),
+        ...(email ? [{ email: email.toLowerCase() }] : []),
+      ],
+    }
+  });
+
+// ===================
+// EVALUATE ONE CODE
+// ===================
+// Throws a DiscountError explaining why the code can't be used
+export const evaluateDiscountCode = async (
+  rawCode: string,
+  context: DiscountContext
+): Promise<AppliedDiscount & { eligible: boolean[] }> => {
+  const code = rawCode.trim().toUpperCase();
+  const now = new Date();
+
+  const discountCode = await prisma.discountCode.findUnique({ where: { code } });
+
+  if (!discountCode) {
+    throw new DiscountError(code, 'NOT_FOUND', 'Invalid discount code');
+  }
+
+  if (!discountCode.isActive) {
+    throw new DiscountError(code, 'INACTIVE', 'Discount code is no longer active');
+  }
+
+  if (discountCode.startsAt && discountCode.startsAt > now) {
+    throw new DiscountError(code, 'NOT_STARTED', 'Discount code is not active yet');
+  }
+
+  if (discountCode.expiresAt && discountCode.expiresAt < now) {
+    throw new DiscountError(code, 'EXPIRED', 'Discount code has expired');
+  }
+
+  if (discountCode.maxUses && discountCode.usedCount >= discountCode.maxUses) {
+    throw new DiscountError(code, 'USAGE_LIMIT', 'Discount code usage limit reached');
+  }
+
+  // Guests are checked once their email is known at checkout
+  if (discountCode.maxUsesPerCustomer && (context.userId || context.email)) {
+    const used = await countCustomerRedemptions(discountCode.id, context.userId, context.email);
+    if (used >= discountCode.maxUsesPerCustomer) {
+      throw new DiscountError(code, 'CUSTOMER_LIMIT', 'You have already used this discount code');
+    }
+  }
+
+  if (discountCode.minOrderAmount && context.subtotal < Number(discountCode.minOrderAmount)) {
+    throw new DiscountError(
+      code,
+      'MIN_ORDER',
+      `Minimum order amount of ${discountCode.minOrderAmount} ILS required`
+    );
+  }
+
+  const eligible = context.lines.map(line => isEligible(discountCode, line));
+  const eligibleSubtotal = context.lines.reduce((sum, line, i) => sum + (eligible[i] ? line.total : 0), 0);
+
+  if (eligibleSubtotal <= 0) {
+    throw new DiscountError(
+      code,
+      'NOT_APPLICABLE',
+      discountCode.excludeSaleItems
+        ? 'Discount code does not apply to sale items or the items in your cart'
+        : 'Discount code does not apply to the items in your cart'
+    );
+  }
+
+  let amount = 0;
+  if (discountCode.type === 'PERCENTAGE') {
+    amount = eligibleSubtotal * (Number(discountCode.value) / 100);
+  } else if (discountCode.type === 'FIXED_AMOUNT') {
+    amount = Math.min(Number(discountCode.value), eligibleSubtotal);
+  }
+
+  return {
+    discountCode,
+    amount: round(amount),
+    freeShipping: discountCode.type === 'FREE_SHIPPING',
+    eligible,
+  };
+};
+
+// ===================
+// EVALUATE CART
+// ===================
+// Applies one or more codes. Several codes can only be combined when every
+// one of them allows it. Each code's amount is spread over the lines it
+// applies to, and the total never exceeds the subtotal.
+export const evaluateDiscounts = async (
+  codes: string[],
+  context: DiscountContext
+): Promise<DiscountResult> => {
+  const lineDiscounts = context.lines.map(() => 0);
+  const applied: AppliedDiscount[] = [];
+  const seen = new Set<string>();
+
+  for (const rawCode of codes) {
+    const code = rawCode.trim().toUpperCase();
+    if (seen.has(code)) {
+      throw new DiscountError(code, 'DUPLICATE', `Discount code ${code} was entered twice`);
+    }
+    seen.add(code);
+
+    const { eligible, ...result } = await evaluateDiscountCode(code, context);
+
+    if (applied.length > 0 && (!result.discountCode.isCombinable || !applied.every(a => a.discountCode.isCombinable))) {
+      throw new DiscountError(code, 'NOT_COMBINABLE', `Discount code ${code} can't be combined with other codes`);
+    }
+
+    // Lines already fully discounted by an earlier code can't go below zero
+    const remaining = context.lines.map((line, i) => eligible[i] ? line.total - lineDiscounts[i] : 0);
+    const remainingTotal = remaining.reduce((sum, value) => sum + value, 0);
+    const amount = round(Math.min(result.amount, remainingTotal));
+
+    let allocated = 0;
+    const lastIndex = remaining.reduce((last, value, i) => value > 0 ? i : last, -1);
+    remaining.forEach((value, i) => {
+      if (value <= 0) return;
+      const share = i === lastIndex ? round(amount - allocated) : round(amount * value / remainingTotal);
+      lineDiscounts[i] = round(lineDiscounts[i] + share);
+      allocated = round(allocated + share);
+    });
+
+    applied.push({ ...result, amount });
+  }
+
+  return {
+    applied,
+    discountAmount: round(applied.reduce((sum, a) => sum + a.amount, 0)),
+    freeShipping: applied.some(a => a.freeShipping),
+    lineDiscounts,
+  };
+};
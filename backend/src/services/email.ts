@@ -1,4 +1,5 @@
 import nodemailer from 'nodemailer';
+import { parseTaxBreakdown } from './tax';
 
 // Create transporter
 const transporter = nodemailer.createTransport({
@@ -11,6 +12,21 @@ const transporter = nodemailer.createTransport({
   },
 });
 
+// Tax lines for the totals table. Exclusive tax is added before the total,
+// inclusive tax is shown below it as the part of the total that is tax.
+const getTaxRows = (order: any, exclusive: boolean) => {
+  if (Number(order.taxAmount) <= 0 || (order.taxMode === 'exclusive') !== exclusive) {
+    return '';
+  }
+
+  return (parseTaxBreakdown(order.taxBreakdown)?.rates || []).map(tax => `
+    <tr>
+      <td colspan="2">${exclusive ? '' : 'Includes '}${tax.name} (${tax.rate}%)</td>
+      <td>${Number(tax.amount).toFixed(2)} ILS</td>
+    </tr>
+  `).join('');
+};
+
 // Email templates
 const getOrderConfirmationTemplate = (order: any) => `
 <!DOCTYPE html>
@@ -87,10 +103,12 @@ const getOrderConfirmationTemplate = (order: any) => `
             <td colspan="2">Shipping</td>
             <td>${Number(order.shippingCost) === 0 ? 'FREE' : `${Number(order.shippingCost).toFixed(2)} ILS`}</td>
           </tr>
+          ${getTaxRows(order, true)}
           <tr class="total-row">
             <td colspan="2">Total</td>
             <td>${Number(order.total).toFixed(2)} ILS</td>
           </tr>
+          ${getTaxRows(order, false)}
         </tbody>
       </table>
 
@@ -135,6 +153,7 @@ export const sendOrderConfirmation = async (order: any) => {
     console.log(`Order confirmation sent to ${order.email}`);
   } catch (error) {
     console.error('Failed to send order confirmation:', error);
+    throw error; // Retried by the send-order-confirmation job
   }
 };
 
@@ -193,3 +212,238 @@ export const sendPasswordReset = async (email: string, resetToken: string) => {
     throw error;
   }
 };
+
+// Send email verification link
+export const sendEmailVerification = async (email: string, firstName: string, verifyToken: string) => {
+  const verifyUrl = `${process.env.FRONTEND_URL}/verify-email?token=${verifyToken}`;
+
+  try {
+    await transporter.sendMail({
+      from: `"Zamanẻ ps" <${process.env.SMTP_USER}>`,
+      to: email,
+      subject: 'Verify Your Email Address',
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #1a1a1a;">Welcome, ${firstName}!</h1>
+          <p>Please confirm your email address to finish setting up your account:</p>
+          <a href="${verifyUrl}" style="display: inline-block; background: #c4a35a; color: #fff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">Verify Email</a>
+          <p style="margin-top: 20px; color: #666;">This link expires in 24 hours.</p>
+          <p style="color: #666;">If you didn't create an account, please ignore this email.</p>
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error('Failed to send email verification:', error);
+    throw error;
+  }
+};
+
+// Send account unlock link after repeated failed sign-ins
+export const sendAccountUnlock = async (email: string, firstName: string, unlockToken: string) => {
+  const unlockUrl = `${process.env.FRONTEND_URL}/unlock-account?token=${unlockToken}`;
+
+  try {
+    await transporter.sendMail({
+      from: `"Zamanẻ ps" <${process.env.SMTP_USER}>`,
+      to: email,
+      subject: 'Your Account Has Been Locked',
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #1a1a1a;">Hi ${firstName},</h1>
+          <p>We locked your account for 30 minutes after several failed attempts to sign in.</p>
+          <p>If this was you, you can unlock it right away:</p>
+          <a href="${unlockUrl}" style="display: inline-block; background: #c4a35a; color: #fff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">Unlock Account</a>
+          <p style="margin-top: 20px; color: #666;">This link expires in 24 hours.</p>
+          <p style="color: #666;">If it wasn't you, someone may be trying to guess your password. Your account is safe, but consider resetting your password to a stronger one.</p>
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error('Failed to send account unlock:', error);
+    throw error;
+  }
+};
+
+// Confirm a deletion request and how to call it off
+export const sendAccountDeletionScheduled = async (email: string, firstName: string, scheduledFor: Date) => {
+  try {
+    await transporter.sendMail({
+      from: `"Zamanẻ ps" <${process.env.SMTP_USER}>`,
+      to: email,
+      subject: 'Your Account Will Be Deleted',
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #1a1a1a;">Hi ${firstName},</h1>
+          <p>We received your request to delete your account. It will be deleted on ${scheduledFor.toDateString()}.</p>
+          <p>Your order history is kept without your name or contact details, and your reviews stay up without your name.</p>
+          <p>Changed your mind? Sign in and cancel the deletion from your account page before then:</p>
+          <a href="${process.env.FRONTEND_URL}/account" style="display: inline-block; background: #c4a35a; color: #fff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">My Account</a>
+          <p style="margin-top: 20px; color: #666;">If you didn't ask for this, sign in, cancel the deletion and change your password.</p>
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error('Failed to send account deletion notice:', error);
+    throw error;
+  }
+};
+
+// Last email to the address, sent once the account is gone
+export const sendAccountDeleted = async (email: string, firstName: string) => {
+  try {
+    await transporter.sendMail({
+      from: `"Zamanẻ ps" <${process.env.SMTP_USER}>`,
+      to: email,
+      subject: 'Your Account Has Been Deleted',
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #1a1a1a;">Goodbye, ${firstName}</h1>
+          <p>Your Zamanẻ ps account and the personal details stored with it have been deleted.</p>
+          <p>You're always welcome to come back and create a new account.</p>
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error('Failed to send account deleted notice:', error);
+    throw error;
+  }
+};
+
+// Send payment failed notice
+export const sendPaymentFailed = async (order: any) => {
+  try {
+    await transporter.sendMail({
+      from: `"Zamanẻ ps" <${process.env.SMTP_USER}>`,
+      to: order.email,
+      subject: `Payment Failed for Order #${order.orderNumber}`,
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #1a1a1a;">Payment Failed</h1>
+          <p>Order #${order.orderNumber}</p>
+          <p>Unfortunately we couldn't complete the payment for your order, so it has been cancelled and you have not been charged.</p>
+          <p>The items are still available in our store if you'd like to try again.</p>
+          <a href="${process.env.FRONTEND_URL}/cart" style="display: inline-block; background: #c4a35a; color: #fff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">Return to Store</a>
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error('Failed to send payment failed notice:', error);
+  }
+};
+
+// Send refund notification
+export const sendRefundNotification = async (order: any, amount: number) => {
+  try {
+    await transporter.sendMail({
+      from: `"Zamanẻ ps" <${process.env.SMTP_USER}>`,
+      to: order.email,
+      subject: `Refund Processed for Order #${order.orderNumber}`,
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #1a1a1a;">Refund Processed</h1>
+          <p>Order #${order.orderNumber}</p>
+          <p>We've refunded <strong>${amount.toFixed(2)} ILS</strong> to your original payment method. Depending on your bank it may take 5-10 business days to appear on your statement.</p>
+          <a href="${process.env.FRONTEND_URL}/orders/${order.id}" style="display: inline-block; background: #c4a35a; color: #fff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">View Order</a>
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error('Failed to send refund notification:', error);
+  }
+};
+
+// Send alert to store admins
+export const sendAdminAlert = async (subject: string, message: string) => {
+  try {
+    await transporter.sendMail({
+      from: `"Zamanẻ ps" <${process.env.SMTP_USER}>`,
+      to: process.env.ADMIN_EMAIL || process.env.STORE_EMAIL || 'support@zamaneps.com',
+      subject: `[Admin] ${subject}`,
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #1a1a1a;">${subject}</h1>
+          <p>${message}</p>
+          <a href="${process.env.FRONTEND_URL}/admin" style="display: inline-block; background: #c4a35a; color: #fff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">Open Admin</a>
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error('Failed to send admin alert:', error);
+  }
+};
+
+// Send return request status update
+export const sendReturnStatusUpdate = async (email: string, returnRequest: any, order: any) => {
+  const statusMessages: Record<string, string> = {
+    REQUESTED: 'We have received your return request and will review it shortly.',
+    APPROVED: `Your return has been approved. Please pack the items securely, write <strong>${returnRequest.rmaNumber}</strong> on the parcel and send it back to our store.`,
+    REJECTED: 'Unfortunately your return request could not be approved.',
+    RECEIVED: 'We have received your returned items and are inspecting them.',
+    REFUNDED: 'Your return is complete and the refund has been issued to your original payment method.',
+    CANCELLED: 'Your return request has been cancelled.',
+  };
+
+  try {
+    await transporter.sendMail({
+      from: `"Zamanẻ ps" <${process.env.SMTP_USER}>`,
+      to: email,
+      subject: `Return ${returnRequest.rmaNumber} - ${returnRequest.status}`,
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #1a1a1a;">Return Update</h1>
+          <p>Return ${returnRequest.rmaNumber} for order #${order.orderNumber}</p>
+          <p><strong>Status:</strong> ${returnRequest.status}</p>
+          <p>${statusMessages[returnRequest.status] || ''}</p>
+          ${returnRequest.adminNote ? `<p style="color: #666;">${returnRequest.adminNote}</p>` : ''}
+          <a href="${process.env.FRONTEND_URL}/orders/${order.id}" style="display: inline-block; background: #c4a35a; color: #fff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">View Order</a>
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error('Failed to send return update:', error);
+  }
+};
+
+// Send abandoned cart reminder
+export const sendCartRecovery = async (
+  email: string,
+  cart: {
+    firstName: string | null;
+    items: { name: string; image: string | null; price: number; quantity: number }[];
+    restoreUrl: string;
+    discount: { code: string; percent: number; expiresAt: Date } | null;
+  }
+) => {
+  try {
+    await transporter.sendMail({
+      from: `"Zamanẻ ps" <${process.env.SMTP_USER}>`,
+      to: email,
+      subject: 'You left something in your cart',
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #1a1a1a;">Still thinking it over?</h1>
+          <p>${cart.firstName ? `Hi ${cart.firstName}, y` : 'Y'}our cart is saved and waiting for you.</p>
+          <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+            ${cart.items.map(item => `
+              <tr>
+                <td style="padding: 8px; border-bottom: 1px solid #eee; width: 64px;">
+                  ${item.image ? `<img src="${item.image}" alt="" width="56" height="56" style="object-fit: cover;">` : ''}
+                </td>
+                <td style="padding: 8px; border-bottom: 1px solid #eee;">${item.name} × ${item.quantity}</td>
+                <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${(item.price * item.quantity).toFixed(2)} ILS</td>
+              </tr>
+            `).join('')}
+          </table>
+          ${cart.discount ? `
+            <p>Complete your order with <strong>${cart.discount.percent}% off</strong> using code
+            <strong>${cart.discount.code}</strong>, valid until ${cart.discount.expiresAt.toLocaleDateString('en-GB')}.</p>
+          ` : ''}
+          <a href="${cart.restoreUrl}" style="display: inline-block; background: #c4a35a; color: #fff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">Return to Your Cart</a>
+          <p style="margin-top: 20px; color: #666;">Prices and availability are confirmed at checkout.</p>
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error('Failed to send cart recovery email:', error);
+  }
+};
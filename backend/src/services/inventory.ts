@@ -0,0 +1,244 @@
+import { Prisma, ReservationStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+// How long stock is held for a checkout. Also used as the Stripe session
+// expiry, which Stripe requires to be at least 30 minutes away.
+export const RESERVATION_TTL_MS = 45 * 60 * 1000;
+
+export class InsufficientStockError extends Error {
+  statusCode = 400;
+
+  constructor(
+    public productId: string,
+    public productName: string,
+    public available: number
+  ) {
+    super(`Not enough stock for ${productName}`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+interface StockLine {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+type Tx = Prisma.TransactionClient;
+
+const withTransaction = <T>(tx: Tx | undefined, fn: (tx: Tx) => Promise<T>) =>
+  tx ? fn(tx) : prisma.$transaction(fn);
+
+// Add or remove stock on the product, or on the variant when there is one
+const adjustStock = async (tx: Tx, line: StockLine, delta: number) => {
+  if (line.variantId) {
+    await tx.productVariant.update({
+      where: { id: line.variantId },
+      data: { quantity: { increment: delta } }
+    });
+  } else {
+    await tx.product.update({
+      where: { id: line.productId },
+      data: { quantity: { increment: delta } }
+    });
+  }
+};
+
+// ===================
+// RESERVE (checkout)
+// ===================
+// Must run inside the transaction that creates the order. Each decrement is
+// conditional on enough stock being left, so two concurrent checkouts for the
+// last unit cannot both succeed: the second one sees count === 0 and throws,
+// rolling back its order.
+export const reserveStock = async (
+  tx: Tx,
+  orderId: string,
+  lines: StockLine[],
+  expiresAt: Date
+) => {
+  // Lock rows in a stable order so concurrent checkouts can't deadlock
+  const sorted = [...lines].sort((a, b) =>
+    `${a.productId}:${a.variantId || ''}`.localeCompare(`${b.productId}:${b.variantId || ''}`)
+  );
+
+  for (const line of sorted) {
+    const product = await tx.product.findUniqueOrThrow({
+      where: { id: line.productId },
+      select: { name: true, trackInventory: true, allowBackorder: true }
+    });
+
+    if (!product.trackInventory) continue;
+
+    if (product.allowBackorder) {
+      await adjustStock(tx, line, -line.quantity);
+    } else {
+      const result = line.variantId
+        ? await tx.productVariant.updateMany({
+            where: { id: line.variantId, quantity: { gte: line.quantity } },
+            data: { quantity: { decrement: line.quantity } }
+          })
+        : await tx.product.updateMany({
+            where: { id: line.productId, quantity: { gte: line.quantity } },
+            data: { quantity: { decrement: line.quantity } }
+          });
+
+      if (result.count === 0) {
+        const current = line.variantId
+          ? await tx.productVariant.findUnique({ where: { id: line.variantId } })
+          : await tx.product.findUnique({ where: { id: line.productId } });
+        throw new InsufficientStockError(line.productId, product.name, current?.quantity ?? 0);
+      }
+    }
+
+    await tx.stockReservation.create({
+      data: {
+        orderId,
+        productId: line.productId,
+        variantId: line.variantId || null,
+        quantity: line.quantity,
+        expiresAt,
+      }
+    });
+  }
+};
+
+// ===================
+// COMMIT (payment received)
+// ===================
+// Turns the order's holds into permanent decrements. If a hold already
+// expired before the payment came through, the stock is taken again since
+// the customer has paid for it.
+export const commitOrderStock = (orderId: string, tx?: Tx) =>
+  withTransaction(tx, async (tx) => {
+    const reservations = await tx.stockReservation.findMany({
+      where: { orderId, status: { in: ['ACTIVE', 'RELEASED'] } }
+    });
+
+    for (const reservation of reservations) {
+      const result = await tx.stockReservation.updateMany({
+        where: { id: reservation.id, status: reservation.status },
+        data: { status: 'CONVERTED' }
+      });
+
+      if (result.count === 1 && reservation.status === 'RELEASED') {
+        console.warn(`Reservation ${reservation.id} had expired before payment, re-taking stock`);
+        await adjustStock(tx, reservation, -reservation.quantity);
+      }
+    }
+  });
+
+// ===================
+// RELEASE (expiry, cancellation, restock)
+// ===================
+// Returns held or sold stock for an order. Each reservation is flipped to
+// RELEASED with a conditional update first, so running this twice (e.g. a
+// duplicate webhook racing a cancellation) never restocks twice.
+export const releaseOrderStock = (
+  orderId: string,
+  tx?: Tx,
+  statuses: ReservationStatus[] = ['ACTIVE', 'CONVERTED']
+) =>
+  withTransaction(tx, async (tx) => {
+    const reservations = await tx.stockReservation.findMany({
+      where: { orderId, status: { in: statuses } }
+    });
+
+    let released = 0;
+    for (const reservation of reservations) {
+      const result = await tx.stockReservation.updateMany({
+        where: { id: reservation.id, status: reservation.status },
+        data: { status: 'RELEASED' }
+      });
+
+      if (result.count === 1) {
+        await adjustStock(tx, reservation, reservation.quantity);
+        released += reservation.quantity;
+      }
+    }
+
+    return released;
+  });
+
+// Returns sold stock for some of an order's items (partial refunds and
+// returns). The matching CONVERTED reservation is split so a later full
+// release of the order doesn't restock the same units again.
+export const releaseOrderItemStock = async (tx: Tx, orderId: string, lines: StockLine[]) => {
+  let released = 0;
+
+  for (const line of lines) {
+    let remaining = line.quantity;
+
+    const reservations = await tx.stockReservation.findMany({
+      where: {
+        orderId,
+        productId: line.productId,
+        variantId: line.variantId || null,
+        status: 'CONVERTED',
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const reservation of reservations) {
+      if (remaining === 0) break;
+      const take = Math.min(remaining, reservation.quantity);
+
+      if (take === reservation.quantity) {
+        const result = await tx.stockReservation.updateMany({
+          where: { id: reservation.id, status: 'CONVERTED' },
+          data: { status: 'RELEASED' }
+        });
+        if (result.count === 0) continue;
+      } else {
+        const result = await tx.stockReservation.updateMany({
+          where: { id: reservation.id, status: 'CONVERTED', quantity: reservation.quantity },
+          data: { quantity: { decrement: take } }
+        });
+        if (result.count === 0) continue;
+
+        await tx.stockReservation.create({
+          data: {
+            orderId,
+            productId: reservation.productId,
+            variantId: reservation.variantId,
+            quantity: take,
+            status: 'RELEASED',
+            expiresAt: reservation.expiresAt,
+          }
+        });
+      }
+
+      await adjustStock(tx, reservation, take);
+      remaining -= take;
+      released += take;
+    }
+  }
+
+  return released;
+};
+
+// Releases holds whose checkout was abandoned without Stripe telling us
+export const releaseExpiredReservations = async () => {
+  const expired = await prisma.stockReservation.findMany({
+    where: { status: 'ACTIVE', expiresAt: { lt: new Date() } },
+    select: { orderId: true },
+    distinct: ['orderId'],
+  });
+
+  for (const { orderId } of expired) {
+    await prisma.$transaction(async (tx) => {
+      const released = await releaseOrderStock(orderId, tx, ['ACTIVE']);
+      if (released > 0) {
+        await tx.orderTimeline.create({
+          data: {
+            orderId,
+            status: 'PENDING',
+            note: 'Checkout expired, reserved stock released',
+          }
+        });
+      }
+    });
+  }
+
+  return expired.length;
+};
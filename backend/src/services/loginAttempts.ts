@@ -0,0 +1,118 @@
+import { prisma } from '../lib/prisma';
+import { sendAccountUnlock } from './email';
+import { countRecentUserTokens, createUserToken } from './userTokens';
+
+// Failures before an account is locked. Every failure after that (once the
+// lock runs out) locks it again, so a slow attacker gets one guess per
+// lockout period.
+export const MAX_FAILED_LOGIN_ATTEMPTS = 10;
+const LOCKOUT_DURATION_MS = 30 * 60 * 1000;
+
+// From this many failures on, each attempt has to wait a little longer
+const DELAY_AFTER_ATTEMPTS = 3;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+// A day without failures forgets the earlier ones
+const FAILED_ATTEMPT_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+const UNLOCK_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class LoginThrottleError extends Error {
+  statusCode = 429;
+
+  constructor(message: string, public code: 'LOGIN_DELAYED' | 'ACCOUNT_LOCKED', public retryAfter: number) {
+    super(message);
+    this.name = 'LoginThrottleError';
+  }
+}
+
+interface LoginAttemptState {
+  id: string;
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+const getDelayMs = (attempts: number) =>
+  attempts < DELAY_AFTER_ATTEMPTS ? 0 : Math.min(1000 * 2 ** (attempts - DELAY_AFTER_ATTEMPTS + 1), MAX_DELAY_MS);
+
+// ===================
+// CHECK
+// ===================
+// Called before the password (or 2FA code) is checked, so a locked account
+// can't be probed at all. Throws with the seconds to wait.
+export const assertLoginAllowed = (user: LoginAttemptState) => {
+  const now = Date.now();
+
+  if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+    throw new LoginThrottleError(
+      'This account is temporarily locked after too many failed sign-in attempts. Try again later or use the unlock link we emailed you.',
+      'ACCOUNT_LOCKED',
+      Math.ceil((user.lockedUntil.getTime() - now) / 1000)
+    );
+  }
+
+  if (!user.lastFailedLoginAt || now - user.lastFailedLoginAt.getTime() > FAILED_ATTEMPT_MEMORY_MS) {
+    return;
+  }
+
+  const waitUntil = user.lastFailedLoginAt.getTime() + getDelayMs(user.failedLoginAttempts);
+  if (waitUntil > now) {
+    const retryAfter = Math.ceil((waitUntil - now) / 1000);
+    throw new LoginThrottleError(
+      `Too many failed attempts. Please wait ${retryAfter} seconds before trying again.`,
+      'LOGIN_DELAYED',
+      retryAfter
+    );
+  }
+};
+
+// ===================
+// RECORD
+// ===================
+export const recordFailedLogin = async (userId: string) => {
+  const now = new Date();
+
+  // Old failures don't count towards a new lockout
+  await prisma.user.updateMany({
+    where: { id: userId, lastFailedLoginAt: { lt: new Date(now.getTime() - FAILED_ATTEMPT_MEMORY_MS) } },
+    data: { failedLoginAttempts: 0 },
+  });
+
+  // Incremented in the database so concurrent attempts all count
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: { increment: 1 }, lastFailedLoginAt: now },
+    select: { id: true, email: true, firstName: true, failedLoginAttempts: true },
+  });
+
+  if (user.failedLoginAttempts < MAX_FAILED_LOGIN_ATTEMPTS) {
+    return;
+  }
+
+  const lockedUntil = new Date(now.getTime() + LOCKOUT_DURATION_MS);
+  await prisma.user.update({
+    where: { id: userId },
+    data: { lockedUntil },
+  });
+
+  console.warn(`Account ${user.id} locked after ${user.failedLoginAttempts} failed sign-in attempts`);
+
+  // At most one unlock email an hour, however often the lock is hit
+  const recent = await countRecentUserTokens(user.id, 'ACCOUNT_UNLOCK', new Date(now.getTime() - 60 * 60 * 1000));
+  if (recent === 0) {
+    const token = await createUserToken(user.id, 'ACCOUNT_UNLOCK', UNLOCK_TOKEN_TTL_MS);
+    sendAccountUnlock(user.email, user.firstName, token).catch(() => {});
+  }
+};
+
+// Only after the whole sign-in (including 2FA) succeeds: resetting after
+// the password alone would let an attacker who knows it guess codes forever
+export const clearFailedLogins = (userId: string) =>
+  prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ failedLoginAttempts: { gt: 0 } }, { lockedUntil: { not: null } }],
+    },
+    data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+  });
@@ -0,0 +1,124 @@
+import { prisma } from '../lib/prisma';
+import { stripe } from '../lib/stripe';
+import { getSetting } from './settings';
+import { applyOrderTransition } from './orderStateMachine';
+import { reconcileCheckoutSession } from './stripeWebhooks';
+
+// Stripe sessions expire with the stock hold (45 minutes), so by default an
+// order still unpaid after two hours missed its expiry webhook or never got
+// a session at all
+const DEFAULT_PENDING_ORDER_TIMEOUT_MINUTES = 120;
+
+// Looks at the order's Stripe session before cancelling. A session that was
+// paid means the webhook went missing, so the payment is applied instead.
+// Returns false when the order must not be cancelled.
+export const closeCheckoutSession = async (sessionId: string) => {
+  const session = await stripe.checkout.sessions.retrieve(sessionId);
+
+  if (session.status === 'complete') {
+    await reconcileCheckoutSession(session);
+    return false;
+  }
+
+  if (session.status === 'open') {
+    await stripe.checkout.sessions.expire(sessionId);
+  }
+  return true;
+};
+
+// ===================
+// STALE PENDING ORDERS
+// ===================
+// Cancels orders left unpaid past the configured timeout, which releases
+// their held stock. Orders waiting on a delayed payment method keep an
+// active stock hold and are left alone. The address created at checkout is
+// removed too, unless the customer saved it or another order uses it.
+export const cancelStalePendingOrders = async () => {
+  const timeoutMinutes = await getSetting('pending_order_timeout_minutes', DEFAULT_PENDING_ORDER_TIMEOUT_MINUTES);
+  const now = new Date();
+
+  const stale = await prisma.order.findMany({
+    where: {
+      status: 'PENDING',
+      paymentStatus: { in: ['PENDING', 'FAILED'] },
+      createdAt: { lt: new Date(now.getTime() - timeoutMinutes * 60 * 1000) },
+      reservations: { none: { status: 'ACTIVE', expiresAt: { gt: now } } },
+    },
+    select: { id: true, orderNumber: true, stripePaymentId: true },
+    orderBy: { createdAt: 'asc' },
+    take: 100,
+  });
+
+  let cancelled = 0;
+  let paid = 0;
+  let addressesRemoved = 0;
+
+  for (const order of stale) {
+    try {
+      if (order.stripePaymentId && !(await closeCheckoutSession(order.stripePaymentId))) {
+        paid++;
+        console.log(`Order ${order.orderNumber} was paid without a webhook, payment applied`);
+        continue;
+      }
+
+      const outcome = await prisma.$transaction(async (tx) => {
+        const result = await applyOrderTransition(tx, order.id, {
+          status: 'CANCELLED',
+          note: `Not paid within ${timeoutMinutes} minutes, cancelled automatically`,
+          expect: { status: ['PENDING'], paymentStatus: ['PENDING', 'FAILED'] },
+        });
+        if (!result) return null;
+
+        const addressId = result.order.shippingAddressId;
+        const address = addressId
+          ? await tx.address.findUnique({
+              where: { id: addressId },
+              include: { _count: { select: { orders: true } } },
+            })
+          : null;
+        if (!address || address.isDefault || address._count.orders > 1) {
+          return { addressRemoved: false };
+        }
+
+        await tx.order.update({
+          where: { id: order.id },
+          data: { shippingAddressId: null },
+        });
+        await tx.address.delete({ where: { id: address.id } });
+        return { addressRemoved: true };
+      });
+
+      if (outcome) {
+        cancelled++;
+        if (outcome.addressRemoved) addressesRemoved++;
+      }
+    } catch (error) {
+      // One bad order (e.g. Stripe unreachable) shouldn't block the rest
+      console.error(`Failed to clean up pending order ${order.orderNumber}:`, error);
+    }
+  }
+
+  if (stale.length > 0) {
+    console.log(
+      `Stale order cleanup: ${cancelled} cancelled, ${paid} found paid, ` +
+      `${addressesRemoved} address(es) removed, ${stale.length - cancelled - paid} skipped`
+    );
+  }
+
+  return { cancelled, paid, addressesRemoved };
+};
+
+// ===================
+// EXPIRED SESSIONS
+// ===================
+export const purgeExpiredSessions = async () => {
+  const { count } = await prisma.session.deleteMany({
+    where: { expiresAt: { lt: new Date() } }
+  });
+
+  if (count > 0) {
+    console.log(`Purged ${count} expired session(s)`);
+  }
+
+  return count;
+};
@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../lib/prisma';
+
+export class OAuthError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+interface OAuthProvider {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId?: string;
+  getClientSecret: () => string;
+  scope: string;
+  // Apple posts the callback as a form when asked for the user's name
+  formPost?: boolean;
+}
+
+interface OidcConfiguration {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OAuthProfile {
+  providerAccountId: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+// Apple doesn't take a static client secret but a short-lived JWT signed
+// with the key downloaded from the developer account
+const getAppleClientSecret = () =>
+  jwt.sign({}, (process.env.APPLE_PRIVATE_KEY || '').replace(/\\n/g, '\n'), {
+    algorithm: 'ES256',
+    keyid: process.env.APPLE_KEY_ID,
+    issuer: process.env.APPLE_TEAM_ID,
+    audience: 'https://appleid.apple.com',
+    subject: process.env.APPLE_CLIENT_ID,
+    expiresIn: '5m',
+  });
+
+const PROVIDERS: OAuthProvider[] = [
+  {
+    id: 'google',
+    name: 'Google',
+    issuer: 'https://accounts.google.com',
+    clientId: process.env.GOOGLE_CLIENT_ID,
+    getClientSecret: () => process.env.GOOGLE_CLIENT_SECRET || '',
+    scope: 'openid email profile',
+  },
+  {
+    id: 'apple',
+    name: 'Apple',
+    issuer: 'https://appleid.apple.com',
+    clientId: process.env.APPLE_CLIENT_ID,
+    getClientSecret: getAppleClientSecret,
+    scope: 'openid email name',
+    formPost: true,
+  },
+  // Local OpenID provider for development, see scripts/mock-oidc.ts
+  {
+    id: 'mock',
+    name: 'Mock OIDC',
+    issuer: process.env.OIDC_MOCK_ISSUER || '',
+    clientId: process.env.NODE_ENV !== 'production' && process.env.OIDC_MOCK_ISSUER ? 'zamane-dev' : undefined,
+    getClientSecret: () => 'zamane-dev-secret',
+    scope: 'openid email profile',
+  },
+];
+
+// Providers without credentials are hidden
+export const getEnabledProviders = () => PROVIDERS.filter(p => p.clientId);
+
+export const getProvider = (id: string) => {
+  const provider = getEnabledProviders().find(p => p.id === id);
+  if (!provider) {
+    throw new OAuthError('Unknown sign-in provider');
+  }
+  return provider;
+};
+
+export const getCallbackUrl = (provider: OAuthProvider) =>
+  `${process.env.API_URL || `http://localhost:${process.env.PORT || 5000}/api`}/auth/oauth/${provider.id}/callback`;
+
+// ===================
+// DISCOVERY
+// ===================
+const DISCOVERY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const discoveryCache = new Map<string, { config: OidcConfiguration; fetchedAt: number }>();
+const jwksCache = new Map<string, crypto.JsonWebKey[]>();
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, init);
+  const body: any = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new OAuthError(body?.error_description || body?.error || `Provider request failed (${response.status})`);
+  }
+  return body;
+};
+
+const getConfiguration = async (provider: OAuthProvider): Promise<OidcConfiguration> => {
+  const cached = discoveryCache.get(provider.issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.config;
+  }
+
+  const config = await fetchJson(`${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+  discoveryCache.set(provider.issuer, { config, fetchedAt: Date.now() });
+  return config;
+};
+
+// Providers rotate signing keys, so an unknown key ID triggers a refetch
+const getSigningKey = async (config: OidcConfiguration, kid?: string) => {
+  const findKey = () => jwksCache.get(config.jwks_uri)?.find(key => !kid || key.kid === kid);
+
+  let key = findKey();
+  if (!key) {
+    const { keys } = await fetchJson(config.jwks_uri);
+    jwksCache.set(config.jwks_uri, keys);
+    key = findKey();
+  }
+  if (!key) {
+    throw new OAuthError('Sign-in token is signed with an unknown key');
+  }
+
+  return crypto.createPublicKey({ key, format: 'jwk' });
+};
+
+// ===================
+// AUTHORIZE
+// ===================
+// PKCE verifier and nonce for one sign-in attempt. The caller keeps them
+// (in a signed cookie) until the callback.
+export const createAuthorizationRequest = async (provider: OAuthProvider) => {
+  const config = await getConfiguration(provider);
+
+  const state = crypto.randomBytes(16).toString('hex');
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const url = new URL(config.authorization_endpoint);
+  url.search = new URLSearchParams({
+    client_id: provider.clientId!,
+    redirect_uri: getCallbackUrl(provider),
+    response_type: 'code',
+    scope: provider.scope,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    ...(provider.formPost && { response_mode: 'form_post' }),
+  }).toString();
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+};
+
+// ===================
+// CALLBACK
+// ===================
+// Exchanges the code and verifies the ID token it comes with
+export const exchangeAuthorizationCode = async (
+  provider: OAuthProvider,
+  params: { code: string; codeVerifier: string; nonce: string }
+): Promise<OAuthProfile> => {
+  const config = await getConfiguration(provider);
+
+  const tokens = await fetchJson(config.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: getCallbackUrl(provider),
+      client_id: provider.clientId!,
+      client_secret: provider.getClientSecret(),
+      code_verifier: params.codeVerifier,
+    }),
+  });
+
+  if (!tokens.id_token) {
+    throw new OAuthError('The provider did not return an ID token');
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  const key = await getSigningKey(config, decoded?.header.kid);
+
+  let claims: jwt.JwtPayload;
+  try {
+    claims = jwt.verify(tokens.id_token, key, {
+      algorithms: ['RS256', 'ES256'],
+      issuer: config.issuer,
+      audience: provider.clientId,
+    }) as jwt.JwtPayload;
+  } catch (error) {
+    throw new OAuthError('Invalid sign-in token');
+  }
+
+  if (claims.nonce !== params.nonce || !claims.sub) {
+    throw new OAuthError('Invalid sign-in token');
+  }
+
+  return {
+    providerAccountId: claims.sub,
+    email: claims.email?.toLowerCase() || null,
+    // Apple sends the flag as a string
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    firstName: claims.given_name || null,
+    lastName: claims.family_name || null,
+  };
+};
+
+// ===================
+// SIGN IN / LINK
+// ===================
+// Finds or creates the user for a provider identity. With `linkUserId` the
+// identity is added to that (signed-in) user instead.
+export const resolveOAuthUser = async (
+  provider: OAuthProvider,
+  profile: OAuthProfile,
+  linkUserId?: string
+) => {
+  const existing = await prisma.account.findUnique({
+    where: { provider_providerAccountId: { provider: provider.id, providerAccountId: profile.providerAccountId } },
+    include: { user: true },
+  });
+
+  if (linkUserId) {
+    if (existing && existing.userId !== linkUserId) {
+      throw new OAuthError(`This ${provider.name} account is already connected to another user`);
+    }
+    if (!existing) {
+      await createAccount(linkUserId, provider, profile);
+    }
+    return prisma.user.findUniqueOrThrow({ where: { id: linkUserId } });
+  }
+
+  if (existing) {
+    return existing.user;
+  }
+
+  // Matching by email is only safe when the provider vouches for it
+  if (!profile.email || !profile.emailVerified) {
+    throw new OAuthError(`Your ${provider.name} account has no verified email address`);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: profile.email }
+  });
+
+  if (user) {
+    if (!user.emailVerified) {
+      // Whoever registered this email never proved they own it, and the
+      // provider says it's this person. Their password, sessions and
+      // two-factor setup are dropped so a squatter can't keep access to (or
+      // lock the owner out of) the linked account.
+      await prisma.$transaction([
+        prisma.user.update({
+          where: { id: user.id },
+          data: {
+            emailVerified: true,
+            password: null,
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorLastStep: null,
+          },
+        }),
+        prisma.session.deleteMany({ where: { userId: user.id } }),
+        prisma.recoveryCode.deleteMany({ where: { userId: user.id } }),
+      ]);
+    }
+
+    await createAccount(user.id, provider, profile);
+    return prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+  }
+
+  return prisma.user.create({
+    data: {
+      email: profile.email,
+      password: null,
+      firstName: profile.firstName || profile.email.split('@')[0],
+      lastName: profile.lastName || '',
+      emailVerified: true,
+      accounts: {
+        create: {
+          provider: provider.id,
+          providerAccountId: profile.providerAccountId,
+          email: profile.email,
+        }
+      },
+    }
+  });
+};
+
+const createAccount = async (userId: string, provider: OAuthProvider, profile: OAuthProfile) => {
+  try {
+    await prisma.account.create({
+      data: {
+        userId,
+        provider: provider.id,
+        providerAccountId: profile.providerAccountId,
+        email: profile.email,
+      }
+    });
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      throw new OAuthError(`A different ${provider.name} account is already connected`);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,169 @@
+import { Order, OrderStatus, PaymentStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { sendOrderStatusUpdate } from './email';
+import { releaseOrderStock } from './inventory';
+
+type Tx = Prisma.TransactionClient;
+
+export class InvalidTransitionError extends Error {
+  statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+// ===================
+// TRANSITIONS
+// ===================
+// Staying in the same state is always allowed and has no side effects
+
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['PROCESSING', 'SHIPPED', 'CANCELLED', 'REFUNDED'],
+  PROCESSING: ['SHIPPED', 'CANCELLED', 'REFUNDED'],
+  SHIPPED: ['DELIVERED', 'REFUNDED'],
+  DELIVERED: ['REFUNDED'],
+  // A payment that clears after the checkout expired reopens the order
+  CANCELLED: ['CONFIRMED'],
+  // A refund that fails at Stripe reopens the order where it was refunded
+  REFUNDED: ['CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED'],
+};
+
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  PENDING: ['PAID', 'FAILED'],
+  FAILED: ['PAID'],
+  PAID: ['PARTIALLY_REFUNDED', 'REFUNDED'],
+  // Failed refunds give back what they took off
+  PARTIALLY_REFUNDED: ['REFUNDED', 'PAID'],
+  REFUNDED: ['PARTIALLY_REFUNDED', 'PAID'],
+};
+
+const PAID_STATUSES: PaymentStatus[] = ['PAID', 'PARTIALLY_REFUNDED'];
+const FULFILMENT_STATUSES: OrderStatus[] = ['CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED'];
+
+export const canTransitionOrder = (from: OrderStatus, to: OrderStatus) =>
+  from === to || ORDER_TRANSITIONS[from].includes(to);
+
+export const canTransitionPayment = (from: PaymentStatus, to: PaymentStatus) =>
+  from === to || PAYMENT_TRANSITIONS[from].includes(to);
+
+export interface OrderTransition {
+  status?: OrderStatus;
+  paymentStatus?: PaymentStatus;
+  note?: string;
+  // Extra fields written with the transition (tracking number, payment IDs...)
+  data?: Prisma.OrderUpdateInput;
+  // Only apply if the order is currently in one of these states, otherwise
+  // do nothing. Lets webhook redeliveries and races become no-ops instead
+  // of errors.
+  expect?: {
+    status?: OrderStatus[];
+    paymentStatus?: PaymentStatus[];
+  };
+  // Email the customer about the new status (transitionOrder only)
+  notify?: boolean;
+}
+
+// Throws if the change isn't allowed from the order's current state
+const assertTransition = (order: Order, status: OrderStatus, paymentStatus: PaymentStatus) => {
+  if (!canTransitionOrder(order.status, status)) {
+    throw new InvalidTransitionError(`Order cannot move from ${order.status} to ${status}`);
+  }
+
+  if (!canTransitionPayment(order.paymentStatus, paymentStatus)) {
+    throw new InvalidTransitionError(`Payment cannot move from ${order.paymentStatus} to ${paymentStatus}`);
+  }
+
+  if (order.status === 'CANCELLED' && status !== 'CANCELLED' && order.paymentStatus === paymentStatus) {
+    throw new InvalidTransitionError('Cancelled orders can only be reopened by a payment');
+  }
+
+  if (status !== order.status && FULFILMENT_STATUSES.includes(status) && !PAID_STATUSES.includes(paymentStatus)) {
+    throw new InvalidTransitionError(`Order must be paid before it can be ${status.toLowerCase()}`);
+  }
+
+  if (status === 'REFUNDED' && paymentStatus !== 'REFUNDED') {
+    throw new InvalidTransitionError('Order can only be marked refunded once its payment is fully refunded');
+  }
+
+  if (order.status === 'REFUNDED' && status !== 'REFUNDED' && paymentStatus === 'REFUNDED') {
+    throw new InvalidTransitionError('Refunded orders can only be reopened by a failed refund');
+  }
+};
+
+// ===================
+// APPLY
+// ===================
+// Locks the order row, checks the transition and writes it together with its
+// side effects: status timestamps, a timeline entry and, on cancellation,
+// returning held or sold stock. Returns null when `expect` doesn't match.
+//
+// Runs inside the caller's transaction so it can be combined with other
+// writes; emails are left to the caller (see transitionOrder).
+export const applyOrderTransition = async (
+  tx: Tx,
+  orderId: string,
+  change: OrderTransition
+): Promise<{ order: Order; previous: Order } | null> => {
+  await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${orderId} FOR UPDATE`;
+
+  const previous = await tx.order.findUniqueOrThrow({ where: { id: orderId } });
+
+  if (
+    (change.expect?.status && !change.expect.status.includes(previous.status)) ||
+    (change.expect?.paymentStatus && !change.expect.paymentStatus.includes(previous.paymentStatus))
+  ) {
+    return null;
+  }
+
+  const status = change.status ?? previous.status;
+  const paymentStatus = change.paymentStatus ?? previous.paymentStatus;
+
+  assertTransition(previous, status, paymentStatus);
+
+  const statusChanged = status !== previous.status;
+  const now = new Date();
+
+  const data: Prisma.OrderUpdateInput = { ...change.data, status, paymentStatus };
+  if (statusChanged) {
+    if (status === 'SHIPPED') data.shippedAt = now;
+    if (status === 'DELIVERED') data.deliveredAt = now;
+    if (status === 'CANCELLED') data.cancelledAt = now;
+    if (previous.status === 'CANCELLED') data.cancelledAt = null;
+  }
+
+  if (statusChanged || change.note) {
+    data.timeline = {
+      create: {
+        status,
+        note: change.note || `Status updated to ${status}`,
+      }
+    };
+  }
+
+  const order = await tx.order.update({ where: { id: orderId }, data });
+
+  if (statusChanged && status === 'CANCELLED') {
+    await releaseOrderStock(orderId, tx);
+  }
+
+  return { order, previous };
+};
+
+// Applies a transition in its own transaction and emails the customer when
+// the status changed
+export const transitionOrder = async (orderId: string, change: OrderTransition) => {
+  const result = await prisma.$transaction((tx) => applyOrderTransition(tx, orderId, change));
+
+  if (!result) {
+    return null;
+  }
+
+  if (change.notify !== false && result.order.status !== result.previous.status) {
+    await sendOrderStatusUpdate(result.order.email, result.order);
+  }
+
+  return result.order;
+};
@@ -0,0 +1,67 @@
+import { UserRole } from '@prisma/client';
+
+// Everything a staff member can be allowed to do. Routes check these with
+// `requirePermission`, never the role itself.
+export const PERMISSIONS = [
+  'reports:read',      // Dashboard, sales chart
+  'inventory:read',    // Low stock list
+  'orders:read',       // Any customer's orders
+  'orders:write',      // Status changes, shipping
+  'orders:refund',     // Refunds, including for returns
+  'returns:read',
+  'returns:write',     // Approve, reject, receive
+  'products:write',    // Products and their images
+  'categories:write',
+  'customers:read',
+  'customers:write',   // Unlock accounts
+  'reviews:moderate',
+  'discounts:read',
+  'discounts:write',
+  'shipping:write',    // Zones, methods, rates
+  'settings:write',    // Store settings and tax
+  'system:manage',     // Background jobs, webhook events
+  'audit:read',        // Audit log and its export
+  'staff:manage',      // Staff roles
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  CUSTOMER: [],
+  FULFILLER: [
+    'inventory:read',
+    'orders:read',
+    'orders:write',
+    'returns:read',
+    'returns:write',
+  ],
+  CATALOG_EDITOR: [
+    'inventory:read',
+    'products:write',
+    'categories:write',
+    'reviews:moderate',
+  ],
+  SUPPORT_AGENT: [
+    'orders:read',
+    'returns:read',
+    'returns:write',
+    'customers:read',
+    'customers:write',
+    'reviews:moderate',
+  ],
+  ANALYST: [
+    'reports:read',
+    'inventory:read',
+    'orders:read',
+    'customers:read',
+    'discounts:read',
+  ],
+  ADMIN: PERMISSIONS.filter(p => p !== 'staff:manage'),
+  SUPER_ADMIN: PERMISSIONS,
+};
+
+export const hasPermission = (role: string | undefined, permission: Permission) =>
+  !!role && (ROLE_PERMISSIONS[role as UserRole] ?? []).includes(permission);
+
+// Anyone who isn't a customer works on the store
+export const isStaffRole = (role: string) => role !== 'CUSTOMER';
@@ -0,0 +1,187 @@
+import { Prisma, ShippingZone } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { evaluateDiscounts, DiscountResult } from './discounts';
+import { quoteShipping, getShippingWeight, ShippingDestination, ShippingOption } from './shipping';
+import { calculateTax, TaxResult } from './tax';
+
+const lineInclude = {
+  product: {
+    include: {
+      images: { take: 1 },
+      tags: { select: { tagId: true } },
+    }
+  },
+  variant: true,
+} satisfies Prisma.CartItemInclude;
+
+type CartLine = Prisma.CartItemGetPayload<{ include: typeof lineInclude }>;
+
+export type PricingLine = Pick<CartLine, 'productId' | 'variantId' | 'quantity' | 'product' | 'variant'>;
+
+export interface PricingItemInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface PricingOptions {
+  discountCodes?: string[];
+  userId?: string | null;
+  email?: string | null;
+  // Shipping is only priced once there is a destination
+  destination?: ShippingDestination;
+  shippingMethodId?: string;
+}
+
+export interface PricedItem {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  sku: string | null;
+  price: number;
+  quantity: number;
+  total: number;
+  discountAmount: number;
+  taxRate: number;
+  taxAmount: number;
+}
+
+export interface PricedOrder {
+  items: PricedItem[];
+  subtotal: number;
+  discounts: DiscountResult;
+  discountAmount: number;
+  shipping: { zone: ShippingZone; option: ShippingOption } | null;
+  shippingCost: number;
+  tax: TaxResult;
+  total: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ===================
+// LOAD LINES
+// ===================
+
+// The stored cart of a user or guest session. Without either there is no
+// cart: an empty filter would match everyone's items.
+export const getCartLines = async (owner: { userId?: string | null; sessionId?: string | null }) => {
+  if (!owner.userId && !owner.sessionId) {
+    return [];
+  }
+
+  return prisma.cartItem.findMany({
+    where: owner.userId ? { userId: owner.userId } : { sessionId: owner.sessionId! },
+    include: lineInclude,
+  });
+};
+
+// Items sent by the client, priced from the catalog. Unknown or inactive
+// products are dropped.
+export const getItemLines = async (items: PricingItemInput[]): Promise<PricingLine[]> => {
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map(i => i.productId) }, isActive: true },
+    include: {
+      ...lineInclude.product.include,
+      variants: true,
+    },
+  });
+
+  return items.flatMap(item => {
+    const found = products.find(p => p.id === item.productId);
+    if (!found) return [];
+
+    const { variants, ...product } = found;
+    const variant = item.variantId ? variants.find(v => v.id === item.variantId) || null : null;
+    if (item.variantId && !variant) return [];
+
+    return [{
+      productId: product.id,
+      variantId: variant?.id || null,
+      quantity: item.quantity,
+      product,
+      variant,
+    }];
+  });
+};
+
+// ===================
+// PRICE
+// ===================
+// Single source of truth for order totals, used by checkout and by the
+// previews shown on the checkout page. Throws DiscountError or ShippingError
+// when a code or the destination can't be used.
+export const priceOrder = async (lines: PricingLine[], options: PricingOptions = {}): Promise<PricedOrder> => {
+  const items: PricedItem[] = lines.map(line => {
+    const price = line.variant ? Number(line.variant.price) : Number(line.product.price);
+    return {
+      productId: line.productId,
+      variantId: line.variantId,
+      name: line.product.name + (line.variant ? ` - ${line.variant.name}` : ''),
+      sku: line.variant?.sku || line.product.sku,
+      price,
+      quantity: line.quantity,
+      total: round(price * line.quantity),
+      discountAmount: 0,
+      taxRate: 0,
+      taxAmount: 0,
+    };
+  });
+
+  const subtotal = round(items.reduce((sum, item) => sum + item.total, 0));
+
+  const discounts = await evaluateDiscounts(options.discountCodes || [], {
+    lines: lines.map((line, i) => ({
+      productId: line.productId,
+      categoryId: line.product.categoryId,
+      tagIds: line.product.tags.map(t => t.tagId),
+      total: items[i].total,
+      onSale: !!line.product.compareAtPrice &&
+        Number(line.product.compareAtPrice) > Number(line.product.price),
+    })),
+    subtotal,
+    userId: options.userId,
+    email: options.email,
+  });
+
+  items.forEach((item, i) => {
+    item.discountAmount = discounts.lineDiscounts[i];
+  });
+
+  // Rates are picked on the cart value before discounts
+  const shipping = options.destination
+    ? await quoteShipping(options.destination, subtotal, getShippingWeight(lines), options.shippingMethodId)
+    : null;
+  const shippingCost = shipping && !discounts.freeShipping ? shipping.option.price : 0;
+
+  // Tax each line after its share of the discount
+  const tax = await calculateTax(
+    shipping?.zone.id || null,
+    lines.map((line, i) => ({
+      categoryId: line.product.categoryId,
+      amount: items[i].total - items[i].discountAmount,
+    })),
+    shippingCost
+  );
+
+  items.forEach((item, i) => {
+    item.taxRate = tax.lines[i].rate;
+    item.taxAmount = tax.lines[i].taxAmount;
+  });
+
+  // In inclusive mode prices already contain the tax
+  const total = round(
+    subtotal - discounts.discountAmount + shippingCost + (tax.mode === 'exclusive' ? tax.taxAmount : 0)
+  );
+
+  return {
+    items,
+    subtotal,
+    discounts,
+    discountAmount: discounts.discountAmount,
+    shipping,
+    shippingCost,
+    tax,
+    total,
+  };
+};
@@ -0,0 +1,266 @@
+import { Order, PaymentStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { stripe } from '../lib/stripe';
+import { sendRefundNotification } from './email';
+import { releaseOrderStock, releaseOrderItemStock } from './inventory';
+import { applyOrderTransition } from './orderStateMachine';
+import { parseTaxBreakdown } from './tax';
+
+export class RefundError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+export interface RefundRequest {
+  items?: { orderItemId: string; quantity: number }[];
+  amount?: number;           // Overrides the amount calculated from items/shipping
+  includeShipping?: boolean;
+  restock?: boolean;
+  reason?: string;
+  createdById?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// The payment status that goes with how much of the order is refunded
+export const getRefundedPaymentStatus = (refundedAmount: number, total: number): PaymentStatus =>
+  refundedAmount <= 0 ? 'PAID' : refundedAmount >= total ? 'REFUNDED' : 'PARTIALLY_REFUNDED';
+
+// Orders created before the payment intent was stored only have the
+// checkout session ID, so look the payment intent up from the session
+const getPaymentIntentId = async (order: Order) => {
+  if (order.stripePaymentIntentId) {
+    return order.stripePaymentIntentId;
+  }
+  if (!order.stripePaymentId) {
+    return null;
+  }
+  const session = await stripe.checkout.sessions.retrieve(order.stripePaymentId);
+  return typeof session.payment_intent === 'string'
+    ? session.payment_intent
+    : session.payment_intent?.id || null;
+};
+
+type Tx = Prisma.TransactionClient;
+
+// Works out what the request refunds from the order's current refunds.
+// Throws if it asks for more than is left.
+const calculateRefund = async (tx: Tx, orderId: string, request: RefundRequest) => {
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: {
+      items: true,
+      refunds: {
+        where: { status: { not: 'FAILED' } },
+        include: { items: true },
+      },
+    }
+  });
+
+  if (!['PAID', 'PARTIALLY_REFUNDED'].includes(order.paymentStatus)) {
+    throw new RefundError('Only paid orders can be refunded');
+  }
+
+  // Each item's share of the order discount is taken off its refund. Tax
+  // charged on top of the price (exclusive mode) is refunded with it.
+  const taxAdded = order.taxMode === 'exclusive';
+
+  const refundItems: { orderItemId: string; quantity: number; amount: number }[] = [];
+  for (const requested of request.items || []) {
+    const orderItem = order.items.find(i => i.id === requested.orderItemId);
+    if (!orderItem) {
+      throw new RefundError(`Item ${requested.orderItemId} is not part of this order`);
+    }
+
+    const alreadyRefunded = order.refunds
+      .flatMap(r => r.items)
+      .filter(i => i.orderItemId === orderItem.id)
+      .reduce((sum, i) => sum + i.quantity, 0);
+
+    if (requested.quantity > orderItem.quantity - alreadyRefunded) {
+      throw new RefundError(
+        `Only ${orderItem.quantity - alreadyRefunded} of ${orderItem.name} can still be refunded`
+      );
+    }
+
+    refundItems.push({
+      orderItemId: orderItem.id,
+      quantity: requested.quantity,
+      amount: round(
+        (Number(orderItem.total) - Number(orderItem.discountAmount) +
+          (taxAdded ? Number(orderItem.taxAmount) : 0)) * requested.quantity / orderItem.quantity
+      ),
+    });
+  }
+
+  let shippingAmount = 0;
+  if (request.includeShipping) {
+    const shippingTax = taxAdded ? parseTaxBreakdown(order.taxBreakdown)?.shipping ?? 0 : 0;
+    const shippingRefunded = order.refunds.reduce((sum, r) => sum + Number(r.shippingAmount), 0);
+    shippingAmount = round(Number(order.shippingCost) + shippingTax - shippingRefunded);
+  }
+
+  const calculated = round(refundItems.reduce((sum, i) => sum + i.amount, 0) + shippingAmount);
+  const amount = round(request.amount ?? calculated);
+  const refundable = round(Number(order.total) - Number(order.refundedAmount));
+
+  if (amount <= 0) {
+    throw new RefundError('Refund amount must be greater than zero');
+  }
+
+  if (amount > refundable) {
+    throw new RefundError(`Refund exceeds the refundable balance of ${refundable.toFixed(2)} ${order.currency}`);
+  }
+
+  return { order, refundItems, shippingAmount, amount };
+};
+
+// ===================
+// CREATE REFUND
+// ===================
+// Refunds selected items, shipping, or an arbitrary amount through Stripe.
+//
+// The refund row and the order's refundedAmount are written before Stripe is
+// called, with the order row locked while the balance is checked, so two
+// concurrent refunds can't both spend the same balance. The charge.refunded
+// webhook compares against refundedAmount, so it sees the refund as already
+// recorded even if it arrives before Stripe's API response does.
+export const createRefund = async (orderId: string, request: RefundRequest) => {
+  const existing = await prisma.order.findUnique({ where: { id: orderId } });
+
+  if (!existing) {
+    throw new RefundError('Order not found', 404);
+  }
+
+  if (!['PAID', 'PARTIALLY_REFUNDED'].includes(existing.paymentStatus)) {
+    throw new RefundError('Only paid orders can be refunded');
+  }
+
+  const paymentIntentId = await getPaymentIntentId(existing);
+  if (!paymentIntentId) {
+    throw new RefundError('Order has no Stripe payment to refund');
+  }
+
+  const { order, refundItems, amount, refund } = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${orderId} FOR UPDATE`;
+
+    const { order, refundItems, shippingAmount, amount } = await calculateRefund(tx, orderId, request);
+
+    await tx.order.update({
+      where: { id: order.id },
+      data: { refundedAmount: { increment: amount } }
+    });
+
+    const refund = await tx.refund.create({
+      data: {
+        orderId: order.id,
+        amount,
+        shippingAmount,
+        currency: order.currency,
+        reason: request.reason,
+        createdById: request.createdById,
+        items: { create: refundItems },
+      }
+    });
+
+    return { order, refundItems, amount, refund };
+  });
+
+  let stripeRefund;
+  try {
+    stripeRefund = await stripe.refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        amount: Math.round(amount * 100),
+        metadata: {
+          orderId: order.id,
+          refundId: refund.id,
+          ...(request.reason && { reason: request.reason.slice(0, 500) }),
+        },
+      },
+      { idempotencyKey: `refund-${refund.id}` }
+    );
+  } catch (error: any) {
+    await prisma.$transaction([
+      prisma.refund.update({
+        where: { id: refund.id },
+        data: { status: 'FAILED' }
+      }),
+      prisma.order.update({
+        where: { id: order.id },
+        data: { refundedAmount: { decrement: amount } }
+      }),
+    ]);
+    throw new RefundError(`Stripe refund failed: ${error.message}`, 502);
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const current = await tx.order.findUniqueOrThrow({ where: { id: order.id } });
+    const fullyRefunded = Number(current.refundedAmount) >= Number(current.total);
+
+    let restocked = false;
+    if (request.restock) {
+      if (refundItems.length > 0) {
+        restocked = await releaseOrderItemStock(
+          tx,
+          order.id,
+          refundItems.map(ri => {
+            const orderItem = order.items.find(i => i.id === ri.orderItemId)!;
+            return {
+              productId: orderItem.productId,
+              variantId: orderItem.variantId,
+              quantity: ri.quantity,
+            };
+          })
+        ) > 0;
+      } else if (fullyRefunded) {
+        restocked = await releaseOrderStock(order.id, tx) > 0;
+      }
+    }
+
+    await tx.refund.update({
+      where: { id: refund.id },
+      data: { stripeRefundId: stripeRefund.id, restocked }
+    });
+    // Pending refunds are settled by the refund.updated webhook, which may
+    // already have run
+    if (stripeRefund.status === 'succeeded') {
+      await tx.refund.updateMany({
+        where: { id: refund.id, status: 'PENDING' },
+        data: { status: 'SUCCEEDED' }
+      });
+    }
+
+    const { order: updated } = (await applyOrderTransition(tx, order.id, {
+      // The refund may already have failed and been taken back off
+      paymentStatus: getRefundedPaymentStatus(Number(current.refundedAmount), Number(current.total)),
+      ...(fullyRefunded && current.status !== 'CANCELLED' && { status: 'REFUNDED' }),
+      note: `Refunded ${amount.toFixed(2)} ${order.currency}` +
+        (request.reason ? `: ${request.reason}` : '') +
+        (restocked ? ' (items restocked)' : ''),
+    }))!;
+
+    return updated;
+  });
+
+  await sendRefundNotification(updated, amount);
+
+  return prisma.refund.findUniqueOrThrow({
+    where: { id: refund.id },
+    include: { items: true },
+  });
+};
+
+// Refund whatever is left on an order, e.g. when a paid order is cancelled
+export const refundRemainingBalance = async (orderId: string, reason?: string) => {
+  const order = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+  const remaining = round(Number(order.total) - Number(order.refundedAmount));
+
+  if (remaining <= 0) {
+    return null;
+  }
+
+  return createRefund(orderId, { amount: remaining, reason });
+};
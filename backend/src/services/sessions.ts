@@ -0,0 +1,353 @@
+import crypto from 'crypto';
+import { CookieOptions, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../lib/prisma';
+import { describeUserAgent } from '../utils/userAgent';
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const CSRF_COOKIE = 'csrf_token';
+export const TWO_FACTOR_CHALLENGE_COOKIE = 'two_factor_challenge';
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// Signed-in devices per user. Older logins are signed out.
+const MAX_SESSIONS_PER_USER = 5;
+
+// lastUsedAt is only written this often, not on every request
+const LAST_USED_PRECISION_MS = 5 * 60 * 1000;
+
+// Two tabs refreshing at once send the same refresh token. For this long
+// after a rotation the old token gets the session that replaced it instead
+// of counting as reuse.
+const REFRESH_GRACE_MS = 30 * 1000;
+
+export class SessionError extends Error {
+  statusCode = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+// ===================
+// COOKIES
+// ===================
+// SameSite=Lax covers a frontend and API on the same site (including
+// localhost on different ports). Deployments on two unrelated domains need
+// COOKIE_SAMESITE=none, which browsers only accept over HTTPS.
+const getCookieOptions = (): CookieOptions => {
+  const sameSite = (process.env.COOKIE_SAMESITE || 'lax') as CookieOptions['sameSite'];
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production' || sameSite === 'none',
+    sameSite,
+    domain: process.env.COOKIE_DOMAIN || undefined,
+    path: '/',
+  };
+};
+
+// The refresh token is only sent to the auth routes that use it
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+const setAuthCookies = (res: Response, tokens: { accessToken: string; refreshToken: string; csrfToken: string }) => {
+  const options = getCookieOptions();
+
+  res.cookie(ACCESS_TOKEN_COOKIE, tokens.accessToken, { ...options, maxAge: ACCESS_TOKEN_TTL_MS });
+  res.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, { ...options, path: REFRESH_COOKIE_PATH, maxAge: SESSION_TTL_MS });
+  res.cookie(CSRF_COOKIE, tokens.csrfToken, { ...options, maxAge: SESSION_TTL_MS });
+};
+
+export const clearAuthCookies = (res: Response) => {
+  const options = getCookieOptions();
+
+  res.clearCookie(ACCESS_TOKEN_COOKIE, options);
+  res.clearCookie(REFRESH_TOKEN_COOKIE, { ...options, path: REFRESH_COOKIE_PATH });
+  res.clearCookie(CSRF_COOKIE, options);
+};
+
+// ===================
+// TOKENS
+// ===================
+// The jti keeps two token pairs issued in the same second unique
+const generateTokens = (userId: string, familyId: string, csrfToken?: string) => {
+  const accessToken = jwt.sign(
+    { userId },
+    process.env.JWT_SECRET!,
+    { expiresIn: ACCESS_TOKEN_TTL_MS / 1000, jwtid: crypto.randomUUID() }
+  );
+
+  const refreshToken = jwt.sign(
+    { userId, familyId },
+    process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET!,
+    { expiresIn: SESSION_TTL_MS / 1000, jwtid: crypto.randomUUID() }
+  );
+
+  // Double-submit CSRF token. It is an httpOnly cookie like the others,
+  // and the frontend gets its copy from the response body instead.
+  return {
+    accessToken,
+    refreshToken,
+    csrfToken: csrfToken || crypto.randomBytes(32).toString('hex'),
+  };
+};
+
+const getClientInfo = (req: Request) => ({
+  userAgent: req.headers['user-agent']?.slice(0, 500) || null,
+  ipAddress: req.ip || null,
+});
+
+// ===================
+// CREATE (login)
+// ===================
+// Starts a new token family, sets the cookies and returns the CSRF token
+// for the response body. `twoFactorVerified` is carried through refreshes
+// for as long as the family lives.
+export const startSession = async (
+  req: Request,
+  res: Response,
+  userId: string,
+  options: { twoFactorVerified?: boolean } = {}
+) => {
+  const familyId = crypto.randomUUID();
+  const tokens = generateTokens(userId, familyId);
+
+  await prisma.session.create({
+    data: {
+      userId,
+      familyId,
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      twoFactorVerified: options.twoFactorVerified ?? false,
+      ...getClientInfo(req),
+    }
+  });
+
+  // Sign out the oldest logins beyond the limit
+  const current = await prisma.session.findMany({
+    where: { userId, rotatedAt: null, revokedAt: null },
+    orderBy: { createdAt: 'desc' },
+    select: { familyId: true },
+  });
+  const staleFamilies = current.slice(MAX_SESSIONS_PER_USER).map(s => s.familyId);
+  if (staleFamilies.length > 0) {
+    await revokeSessionFamilies(staleFamilies);
+  }
+
+  setAuthCookies(res, tokens);
+  return tokens.csrfToken;
+};
+
+// ===================
+// ROTATE (refresh)
+// ===================
+// Sets the cookies of the family's newest session if it was created within
+// the grace period, i.e. by a concurrent refresh. Returns null otherwise.
+const reuseRecentRotation = async (res: Response, familyId: string, csrfToken?: string) => {
+  const now = Date.now();
+  const successor = await prisma.session.findFirst({
+    where: {
+      familyId,
+      rotatedAt: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date(now) },
+      createdAt: { gte: new Date(now - REFRESH_GRACE_MS) },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!successor) {
+    return null;
+  }
+
+  const tokens = {
+    accessToken: successor.token,
+    refreshToken: successor.refreshToken,
+    csrfToken: csrfToken || crypto.randomBytes(32).toString('hex'),
+  };
+  setAuthCookies(res, tokens);
+  return tokens.csrfToken;
+};
+
+// Exchanges a refresh token for a new session in the same family. A refresh
+// token that was already exchanged (outside the grace period) means someone
+// else holds a copy, so the whole family is revoked and both parties have
+// to log in again.
+// The CSRF token is kept, so other open tabs don't need the new copy.
+export const rotateSession = async (req: Request, res: Response, refreshToken: string, csrfToken?: string) => {
+  try {
+    jwt.verify(refreshToken, process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET!);
+  } catch (error) {
+    throw new SessionError('Invalid refresh token');
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { refreshToken }
+  });
+
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    throw new SessionError('Session expired');
+  }
+
+  if (session.rotatedAt) {
+    if (session.rotatedAt.getTime() > Date.now() - REFRESH_GRACE_MS) {
+      const reused = await reuseRecentRotation(res, session.familyId, csrfToken);
+      if (reused) {
+        return reused;
+      }
+    }
+
+    await revokeSessionFamilies([session.familyId]);
+    console.warn(`Refresh token reuse detected for user ${session.userId}, session family ${session.familyId} revoked`);
+    throw new SessionError('Session revoked');
+  }
+
+  const tokens = generateTokens(session.userId, session.familyId, csrfToken);
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Conditional so that two concurrent refreshes can't both succeed
+    const { count } = await tx.session.updateMany({
+      where: { id: session.id, rotatedAt: null, revokedAt: null },
+      data: { rotatedAt: new Date() },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.session.create({
+      data: {
+        userId: session.userId,
+        familyId: session.familyId,
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+        twoFactorVerified: session.twoFactorVerified,
+        ...getClientInfo(req),
+      }
+    });
+    return true;
+  });
+
+  // Lost the race to a concurrent refresh: share its session
+  if (!rotated) {
+    const reused = await reuseRecentRotation(res, session.familyId, csrfToken);
+    if (!reused) {
+      throw new SessionError('Session expired');
+    }
+    return reused;
+  }
+
+  setAuthCookies(res, tokens);
+  return tokens.csrfToken;
+};
+
+// ===================
+// REVOKE
+// ===================
+export const revokeSessionFamilies = (familyIds: string[]) =>
+  prisma.session.updateMany({
+    where: { familyId: { in: familyIds }, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+// Marks a login as having passed two-factor authentication, e.g. the one
+// that just set it up
+export const markSessionFamilyTwoFactorVerified = (familyId: string) =>
+  prisma.session.updateMany({
+    where: { familyId },
+    data: { twoFactorVerified: true },
+  });
+
+// ===================
+// TWO-FACTOR CHALLENGE
+// ===================
+// Between the password (or provider) step and the code, the user only
+// holds this short-lived cookie, which can't be used for anything else
+const TWO_FACTOR_PURPOSE = 'two-factor';
+
+interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: string;
+}
+
+export const startTwoFactorChallenge = (res: Response, userId: string) => {
+  const payload: TwoFactorChallengePayload = { userId, purpose: TWO_FACTOR_PURPOSE };
+  const challenge = jwt.sign(
+    payload,
+    process.env.JWT_SECRET!,
+    { expiresIn: TWO_FACTOR_CHALLENGE_TTL_MS / 1000 }
+  );
+
+  res.cookie(TWO_FACTOR_CHALLENGE_COOKIE, challenge, {
+    ...getCookieOptions(),
+    path: REFRESH_COOKIE_PATH,
+    maxAge: TWO_FACTOR_CHALLENGE_TTL_MS,
+  });
+};
+
+// Returns the user ID waiting for a code
+export const readTwoFactorChallenge = (req: Request) => {
+  try {
+    const decoded = jwt.verify(
+      req.cookies?.[TWO_FACTOR_CHALLENGE_COOKIE] || '',
+      process.env.JWT_SECRET!
+    ) as Partial<TwoFactorChallengePayload> | string;
+    if (typeof decoded === 'string' || decoded.purpose !== TWO_FACTOR_PURPOSE || typeof decoded.userId !== 'string') {
+      throw new Error('Wrong token purpose');
+    }
+    return decoded.userId;
+  } catch (error) {
+    throw new SessionError('Sign-in expired, please start again');
+  }
+};
+
+export const clearTwoFactorChallenge = (res: Response) => {
+  res.clearCookie(TWO_FACTOR_CHALLENGE_COOKIE, { ...getCookieOptions(), path: REFRESH_COOKIE_PATH });
+};
+
+// ===================
+// DEVICES
+// ===================
+// Called by `authenticate` with the session it found
+export const touchSession = async (session: { id: string; lastUsedAt: Date }, req: Request) => {
+  if (Date.now() - session.lastUsedAt.getTime() < LAST_USED_PRECISION_MS) {
+    return;
+  }
+
+  await prisma.session.update({
+    where: { id: session.id },
+    data: { lastUsedAt: new Date(), ...getClientInfo(req) },
+  });
+};
+
+// One entry per signed-in device. A family's newest row holds its current
+// tokens, the oldest one tells when the device signed in.
+export const listUserSessions = async (userId: string, currentFamilyId?: string) => {
+  const now = new Date();
+
+  const heads = await prisma.session.findMany({
+    where: { userId, rotatedAt: null, revokedAt: null, expiresAt: { gt: now } },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+
+  const firstLogins = await prisma.session.groupBy({
+    by: ['familyId'],
+    where: { familyId: { in: heads.map(s => s.familyId) } },
+    _min: { createdAt: true },
+  });
+
+  return heads.map(session => ({
+    id: session.familyId,
+    device: describeUserAgent(session.userAgent),
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    signedInAt: firstLogins.find(f => f.familyId === session.familyId)?._min.createdAt || session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.familyId === currentFamilyId,
+  }));
+};
@@ -0,0 +1,8 @@
+import { prisma } from '../lib/prisma';
+
+// Read a store setting (see the Setting model), falling back to a default
+// when it hasn't been configured
+export const getSetting = async <T>(key: string, fallback: T): Promise<T> => {
+  const setting = await prisma.setting.findUnique({ where: { key } });
+  return setting ? (setting.value as unknown as T) : fallback;
+};
@@ -0,0 +1,128 @@
+import { ShippingMethod, ShippingZone } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export class ShippingError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShippingError';
+  }
+}
+
+export interface ShippingDestination {
+  country: string;
+  city?: string;
+}
+
+export interface ShippingLine {
+  quantity: number;
+  product: { weight: unknown };
+}
+
+export interface ShippingOption {
+  methodId: string;
+  code: string;
+  name: string;
+  description: string | null;
+  minDays: number | null;
+  maxDays: number | null;
+  isPickup: boolean;
+  price: number;
+}
+
+const normalize = (value?: string | null) => (value || '').trim().toLowerCase();
+
+const inRange = (value: number, min: unknown, max: unknown) =>
+  (min == null || value >= Number(min)) && (max == null || value < Number(max));
+
+// Total weight in kg. Products without a weight count as weightless.
+export const getShippingWeight = (lines: ShippingLine[]) =>
+  lines.reduce((sum, line) => sum + Number(line.product.weight || 0) * line.quantity, 0);
+
+// City-specific zones carry a higher priority than country-wide ones, and a
+// zone with no countries acts as the catch-all (international)
+export const findShippingZone = async (destination: ShippingDestination) => {
+  const zones = await prisma.shippingZone.findMany({
+    where: { isActive: true },
+    orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+  });
+
+  const country = normalize(destination.country);
+  const city = normalize(destination.city);
+
+  return zones.find(zone =>
+    (zone.countries.length === 0 || zone.countries.some(c => normalize(c) === country)) &&
+    (zone.cities.length === 0 || zone.cities.some(c => normalize(c) === city))
+  ) || null;
+};
+
+// ===================
+// QUOTE
+// ===================
+// Lists every active method that ships to the destination with its price.
+// Subtotal is the cart value before discounts.
+export const getShippingOptions = async (
+  destination: ShippingDestination,
+  subtotal: number,
+  weight: number
+): Promise<{ zone: ShippingZone | null; options: ShippingOption[] }> => {
+  const zone = await findShippingZone(destination);
+  if (!zone) {
+    return { zone: null, options: [] };
+  }
+
+  const rates = await prisma.shippingRate.findMany({
+    where: { zoneId: zone.id, method: { isActive: true } },
+    include: { method: true },
+  });
+
+  const cheapest = new Map<string, { method: ShippingMethod; price: number }>();
+  for (const rate of rates) {
+    if (!inRange(weight, rate.minWeight, rate.maxWeight)) continue;
+    if (!inRange(subtotal, rate.minSubtotal, rate.maxSubtotal)) continue;
+
+    const price = Number(rate.price);
+    const current = cheapest.get(rate.methodId);
+    if (!current || price < current.price) {
+      cheapest.set(rate.methodId, { method: rate.method, price });
+    }
+  }
+
+  const options = [...cheapest.values()]
+    .sort((a, b) => a.method.sortOrder - b.method.sortOrder)
+    .map(({ method, price }) => ({
+      methodId: method.id,
+      code: method.code,
+      name: method.name,
+      description: method.description,
+      minDays: method.minDays,
+      maxDays: method.maxDays,
+      isPickup: method.isPickup,
+      price,
+    }));
+
+  return { zone, options };
+};
+
+// Prices the chosen method, falling back to the first available one when
+// none was chosen
+export const quoteShipping = async (
+  destination: ShippingDestination,
+  subtotal: number,
+  weight: number,
+  methodId?: string
+) => {
+  const { zone, options } = await getShippingOptions(destination, subtotal, weight);
+
+  if (!zone || options.length === 0) {
+    throw new ShippingError(`We don't ship to ${destination.city ? `${destination.city}, ` : ''}${destination.country} yet`);
+  }
+
+  const option = methodId ? options.find(o => o.methodId === methodId) : options[0];
+  if (!option) {
+    throw new ShippingError('The selected shipping method is not available for this address');
+  }
+
+  return { zone, option };
+};
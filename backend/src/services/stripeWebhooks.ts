@@ -0,0 +1,555 @@
+import Stripe from 'stripe';
+import { OrderStatus, Prisma, WebhookEvent } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import {
+  sendPaymentFailed,
+  sendRefundNotification,
+  sendAdminAlert,
+} from './email';
+import { commitOrderStock, releaseOrderStock } from './inventory';
+import { applyOrderTransition } from './orderStateMachine';
+import { getRefundedPaymentStatus } from './refunds';
+import { attributeCartRecovery } from './cartRecovery';
+import { enqueueJob } from '../jobs/queue';
+
+// Retries back off exponentially: 1, 2, 4, 8... minutes, capped at 6 hours
+const MAX_ATTEMPTS = 10;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+// An event stuck in PROCESSING this long is assumed to belong to a crashed
+// process and becomes eligible for retry again
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Delayed payment methods (bank debits etc.) can take days to settle, so
+// stock stays held for this long after the customer completes checkout
+const ASYNC_PAYMENT_HOLD_MS = 7 * 24 * 60 * 60 * 1000;
+
+const getRetryDelay = (attempts: number) =>
+  Math.min(60 * 1000 * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+// ===================
+// EVENT LOG
+// ===================
+
+// Persist an event before acting on it. Redeliveries of the same Stripe
+// event return the existing row instead of creating a new one.
+export const recordStripeEvent = async (event: Stripe.Event): Promise<WebhookEvent> => {
+  try {
+    return await prisma.webhookEvent.create({
+      data: {
+        id: event.id,
+        type: event.type,
+        payload: event as unknown as Prisma.InputJsonValue,
+      }
+    });
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      return prisma.webhookEvent.findUniqueOrThrow({ where: { id: event.id } });
+    }
+    throw error;
+  }
+};
+
+// Run the handler for a stored event. The event is claimed with a
+// conditional update so the same event is never handled by two requests at
+// once. `force` allows replaying events that already succeeded; handlers
+// are idempotent so this is safe.
+export const processStripeEvent = async (
+  eventId: string,
+  options: { force?: boolean } = {}
+): Promise<WebhookEvent> => {
+  const claimable: Prisma.WebhookEventWhereInput[] = [
+    { status: { in: options.force ? ['PENDING', 'FAILED', 'PROCESSED'] : ['PENDING', 'FAILED'] } },
+    { status: 'PROCESSING', updatedAt: { lt: new Date(Date.now() - PROCESSING_TIMEOUT_MS) } },
+  ];
+
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: { id: eventId, OR: claimable },
+    data: { status: 'PROCESSING', attempts: { increment: 1 } },
+  });
+
+  const record = await prisma.webhookEvent.findUniqueOrThrow({ where: { id: eventId } });
+
+  if (claimed.count === 0) {
+    return record;
+  }
+
+  try {
+    await dispatchStripeEvent(record.payload as unknown as Stripe.Event);
+
+    return await prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: 'PROCESSED',
+        processedAt: new Date(),
+        lastError: null,
+        nextRetryAt: null,
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error processing Stripe event ${eventId} (${record.type}):`, error);
+
+    return prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: 'FAILED',
+        lastError: error?.message || String(error),
+        nextRetryAt: record.attempts < MAX_ATTEMPTS
+          ? new Date(Date.now() + getRetryDelay(record.attempts))
+          : null,
+      }
+    });
+  }
+};
+
+// Retry queue: picks up failed events whose backoff has elapsed and events
+// left in PROCESSING by a crashed process
+export const retryFailedStripeEvents = async () => {
+  const due = await prisma.webhookEvent.findMany({
+    where: {
+      OR: [
+        { status: 'FAILED', nextRetryAt: { lte: new Date() } },
+        { status: 'PROCESSING', updatedAt: { lt: new Date(Date.now() - PROCESSING_TIMEOUT_MS) } },
+      ]
+    },
+    orderBy: { createdAt: 'asc' },
+    take: 50,
+    select: { id: true },
+  });
+
+  for (const { id } of due) {
+    await processStripeEvent(id);
+  }
+
+  return due.length;
+};
+
+// Applies a checkout session fetched from Stripe, for when the customer is
+// back on the site before the webhook arrived. Safe to call alongside the
+// webhook: only the first one marks the order paid.
+export const reconcileCheckoutSession = async (session: Stripe.Checkout.Session) => {
+  const orderId = session.metadata?.orderId;
+  if (!orderId || session.status !== 'complete' || session.payment_status === 'unpaid') {
+    return;
+  }
+
+  await markOrderPaid(orderId, getPaymentIntentId(session.payment_intent));
+};
+
+// ===================
+// DISPATCH
+// ===================
+// Handlers throw on failure so the event is marked FAILED and retried
+
+const dispatchStripeEvent = async (event: Stripe.Event) => {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      await handleCheckoutComplete(session);
+      break;
+    }
+
+    case 'checkout.session.async_payment_succeeded': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      await handleAsyncPaymentSucceeded(session);
+      break;
+    }
+
+    case 'checkout.session.async_payment_failed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      await handleAsyncPaymentFailed(session);
+      break;
+    }
+
+    case 'checkout.session.expired': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      await handleCheckoutExpired(session);
+      break;
+    }
+
+    case 'payment_intent.succeeded': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      console.log('Payment succeeded:', paymentIntent.id);
+      break;
+    }
+
+    case 'payment_intent.payment_failed': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      await handlePaymentFailed(paymentIntent);
+      break;
+    }
+
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      await handleChargeRefunded(charge);
+      break;
+    }
+
+    case 'refund.updated':
+    case 'charge.refund.updated': {
+      const refund = event.data.object as Stripe.Refund;
+      await handleRefundUpdated(refund);
+      break;
+    }
+
+    case 'charge.dispute.created': {
+      const dispute = event.data.object as Stripe.Dispute;
+      await handleDisputeCreated(dispute);
+      break;
+    }
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+  }
+};
+
+// ===================
+// HELPERS
+// ===================
+
+const getPaymentIntentId = (value: string | { id: string } | null | undefined) =>
+  typeof value === 'string' ? value : value?.id || null;
+
+const getSessionOrderId = (session: Stripe.Checkout.Session) => {
+  const orderId = session.metadata?.orderId;
+  if (!orderId) {
+    console.error(`No order ID in metadata of session ${session.id}`);
+  }
+  return orderId;
+};
+
+// Charges and disputes only carry the payment intent, which we store on the
+// order once checkout completes. Sessions created after payment intent
+// metadata was added also carry the order ID directly.
+const findOrderByPaymentIntent = async (
+  paymentIntentId: string | null,
+  metadata?: Stripe.Metadata | null
+) => {
+  if (metadata?.orderId) {
+    return prisma.order.findUnique({ where: { id: metadata.orderId } });
+  }
+  if (!paymentIntentId) {
+    return null;
+  }
+  return prisma.order.findUnique({ where: { stripePaymentIntentId: paymentIntentId } });
+};
+
+// Moves an order to PAID. Only the first call wins; redeliveries and replays
+// stop at the conditional update without touching stock or discount usage
+// again.
+async function markOrderPaid(orderId: string, paymentIntentId: string | null) {
+  const order = await prisma.$transaction(async (tx) => {
+    const transitioned = await applyOrderTransition(tx, orderId, {
+      status: 'CONFIRMED',
+      paymentStatus: 'PAID',
+      note: 'Payment received via Stripe',
+      data: {
+        paymentMethod: 'stripe',
+        ...(paymentIntentId && { stripePaymentIntentId: paymentIntentId }),
+      },
+      expect: { paymentStatus: ['PENDING', 'FAILED'] },
+    });
+
+    if (!transitioned) {
+      return null;
+    }
+
+    // Make the stock held at checkout permanent
+    await commitOrderStock(orderId, tx);
+
+    const order = transitioned.order;
+
+    // Update usage of every discount code on the order
+    const redemptions = await tx.discountRedemption.findMany({
+      where: { orderId },
+      select: { discountCodeId: true },
+    });
+    for (const { discountCodeId } of redemptions) {
+      await tx.discountCode.update({
+        where: { id: discountCodeId },
+        data: { usedCount: { increment: 1 } }
+      });
+    }
+
+    // Clear the cart the order was placed from
+    if (order.userId) {
+      await tx.cartItem.deleteMany({
+        where: { userId: order.userId }
+      });
+    } else if (order.cartSessionId) {
+      await tx.cartItem.deleteMany({
+        where: { sessionId: order.cartSessionId }
+      });
+    }
+
+    await attributeCartRecovery(tx, order);
+
+    // Queued with the payment so the email goes out exactly once, and is
+    // retried if the mail server is down
+    await enqueueJob('send-order-confirmation', { orderId }, {
+      tx,
+      uniqueKey: `order-confirmation:${orderId}`,
+    });
+
+    return order;
+  });
+
+  if (!order) {
+    console.log(`Order ${orderId} already paid, skipping`);
+    return;
+  }
+
+  console.log(`Order ${order.orderNumber} confirmed`);
+}
+
+// Cancels an unpaid order, which gives its held stock back. Returns the
+// order if this call performed the cancellation.
+async function cancelUnpaidOrder(
+  orderId: string,
+  paymentStatus: 'PENDING' | 'FAILED' | undefined,
+  note: string
+) {
+  const result = await prisma.$transaction((tx) =>
+    applyOrderTransition(tx, orderId, {
+      status: 'CANCELLED',
+      paymentStatus,
+      note,
+      expect: { status: ['PENDING'], paymentStatus: ['PENDING', 'FAILED'] },
+    })
+  );
+
+  return result?.order ?? null;
+}
+
+// ===================
+// HANDLERS
+// ===================
+
+async function handleCheckoutComplete(session: Stripe.Checkout.Session) {
+  const orderId = getSessionOrderId(session);
+  if (!orderId) return;
+
+  const paymentIntentId = getPaymentIntentId(session.payment_intent);
+
+  if (session.payment_status !== 'unpaid') {
+    await markOrderPaid(orderId, paymentIntentId);
+    return;
+  }
+
+  // Delayed payment method: the customer finished checkout but the money
+  // arrives later via async_payment_succeeded/failed. Keep the stock held
+  // until then instead of letting the checkout hold expire.
+  await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({ where: { id: orderId } });
+    if (!order || order.status !== 'PENDING' || order.stripePaymentIntentId) {
+      return;
+    }
+
+    await tx.order.update({
+      where: { id: orderId },
+      data: {
+        stripePaymentIntentId: paymentIntentId,
+        timeline: {
+          create: {
+            status: 'PENDING',
+            note: 'Checkout completed, waiting for payment to clear',
+          }
+        }
+      }
+    });
+
+    await tx.stockReservation.updateMany({
+      where: { orderId, status: 'ACTIVE' },
+      data: { expiresAt: new Date(Date.now() + ASYNC_PAYMENT_HOLD_MS) }
+    });
+  });
+}
+
+async function handleAsyncPaymentSucceeded(session: Stripe.Checkout.Session) {
+  const orderId = getSessionOrderId(session);
+  if (!orderId) return;
+
+  await markOrderPaid(orderId, getPaymentIntentId(session.payment_intent));
+}
+
+async function handleAsyncPaymentFailed(session: Stripe.Checkout.Session) {
+  const orderId = getSessionOrderId(session);
+  if (!orderId) return;
+
+  const order = await cancelUnpaidOrder(orderId, 'FAILED', 'Delayed payment failed, order cancelled');
+
+  if (order) {
+    await sendPaymentFailed(order);
+  }
+}
+
+async function handleCheckoutExpired(session: Stripe.Checkout.Session) {
+  const orderId = getSessionOrderId(session);
+  if (!orderId) return;
+
+  await cancelUnpaidOrder(orderId, undefined, 'Checkout session expired without payment');
+}
+
+// A declined card inside Stripe Checkout can still be retried by the
+// customer, so the order stays open and only the attempt is recorded
+async function handlePaymentFailed(paymentIntent: Stripe.PaymentIntent) {
+  const order = await findOrderByPaymentIntent(paymentIntent.id, paymentIntent.metadata);
+  if (!order) {
+    return;
+  }
+
+  const reason = paymentIntent.last_payment_error?.message || 'Payment was declined';
+
+  await prisma.$transaction((tx) =>
+    applyOrderTransition(tx, order.id, {
+      paymentStatus: 'FAILED',
+      note: `Payment attempt failed: ${reason}`,
+      expect: { status: ['PENDING'], paymentStatus: ['PENDING', 'FAILED'] },
+    })
+  );
+}
+
+// Covers refunds from any source (our API or the Stripe dashboard). The
+// refunded total comes from the charge, so repeated deliveries are no-ops.
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const order = await findOrderByPaymentIntent(getPaymentIntentId(charge.payment_intent), charge.metadata);
+  if (!order) {
+    console.error(`No order found for refunded charge ${charge.id}`);
+    return;
+  }
+
+  const refundedAmount = charge.amount_refunded / 100;
+  const previouslyRefunded = Number(order.refundedAmount);
+  if (refundedAmount <= previouslyRefunded) {
+    return;
+  }
+
+  const fullyRefunded = charge.refunded || charge.amount_refunded >= charge.amount;
+  // Stock goes back on the shelf only if the goods never left the store
+  const notShipped = ['PENDING', 'CONFIRMED', 'PROCESSING'].includes(order.status);
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const { order: updated } = (await applyOrderTransition(tx, order.id, {
+      paymentStatus: fullyRefunded ? 'REFUNDED' : 'PARTIALLY_REFUNDED',
+      ...(fullyRefunded && order.status !== 'CANCELLED' && { status: 'REFUNDED' }),
+      note: `Refund of ${(refundedAmount - previouslyRefunded).toFixed(2)} ${order.currency} processed`,
+      data: { refundedAmount },
+    }))!;
+
+    if (fullyRefunded && notShipped) {
+      await releaseOrderStock(order.id, tx);
+    }
+
+    return updated;
+  });
+
+  await sendRefundNotification(updated, refundedAmount - previouslyRefunded);
+}
+
+// The status a refunded order had before it was marked refunded, from its
+// timeline
+const getStatusBeforeRefund = async (tx: Prisma.TransactionClient, orderId: string): Promise<OrderStatus> => {
+  const entry = await tx.orderTimeline.findFirst({
+    where: { orderId, status: { in: ['CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED'] } },
+    orderBy: { createdAt: 'desc' },
+  });
+  return (entry?.status as OrderStatus | undefined) ?? 'CONFIRMED';
+};
+
+// Settles refunds we created that Stripe reported as pending. A refund can
+// also fail after succeeding (e.g. the card was closed); the amount is then
+// no longer refunded, the order's payment and status go back to what they
+// were without it, and it can be refunded again. Dashboard refunds have no
+// row here and are covered by charge.refunded.
+async function handleRefundUpdated(stripeRefund: Stripe.Refund) {
+  const refund = await prisma.refund.findFirst({
+    where: {
+      OR: [
+        { stripeRefundId: stripeRefund.id },
+        ...(stripeRefund.metadata?.refundId ? [{ id: stripeRefund.metadata.refundId }] : []),
+      ]
+    },
+    include: { order: true },
+  });
+  if (!refund) {
+    return;
+  }
+
+  if (stripeRefund.status === 'succeeded') {
+    await prisma.refund.updateMany({
+      where: { id: refund.id, status: 'PENDING' },
+      data: { status: 'SUCCEEDED', stripeRefundId: stripeRefund.id },
+    });
+    return;
+  }
+
+  if (stripeRefund.status !== 'failed' && stripeRefund.status !== 'canceled') {
+    return;
+  }
+
+  const amount = Number(refund.amount);
+  const failed = await prisma.$transaction(async (tx) => {
+    // Conditional so a redelivery doesn't give the amount back twice
+    const { count } = await tx.refund.updateMany({
+      where: { id: refund.id, status: { not: 'FAILED' } },
+      data: { status: 'FAILED', stripeRefundId: stripeRefund.id },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${refund.orderId} FOR UPDATE`;
+    const order = await tx.order.findUniqueOrThrow({ where: { id: refund.orderId } });
+
+    const refundedAmount = Math.max(0, Math.round((Number(order.refundedAmount) - amount) * 100) / 100);
+    const paymentStatus = getRefundedPaymentStatus(refundedAmount, Number(order.total));
+
+    await applyOrderTransition(tx, order.id, {
+      paymentStatus,
+      ...(order.status === 'REFUNDED' && paymentStatus !== 'REFUNDED' && {
+        status: await getStatusBeforeRefund(tx, order.id),
+      }),
+      note: `Refund of ${amount.toFixed(2)} ${refund.currency} ${stripeRefund.status} at Stripe` +
+        (stripeRefund.failure_reason ? ` (${stripeRefund.failure_reason})` : ''),
+      data: { refundedAmount },
+    });
+    return true;
+  });
+
+  if (failed) {
+    await sendAdminAlert(
+      `Refund failed for order ${refund.order.orderNumber}`,
+      `The refund of ${amount.toFixed(2)} ${refund.currency} was ${stripeRefund.status} by Stripe` +
+        (stripeRefund.failure_reason ? ` (${stripeRefund.failure_reason})` : '') +
+        '. The customer has not received this amount; it can be refunded again from the order.' +
+        (refund.restocked ? ' The items it restocked are still counted as in stock.' : '')
+    );
+  }
+}
+
+async function handleDisputeCreated(dispute: Stripe.Dispute) {
+  const order = await findOrderByPaymentIntent(getPaymentIntentId(dispute.payment_intent), dispute.metadata);
+  if (!order) {
+    console.error(`No order found for dispute ${dispute.id}`);
+    return;
+  }
+
+  const note = `Payment disputed (${dispute.reason}), dispute ${dispute.id}`;
+
+  const existing = await prisma.orderTimeline.findFirst({
+    where: { orderId: order.id, note }
+  });
+  if (existing) {
+    return;
+  }
+
+  await prisma.orderTimeline.create({
+    data: { orderId: order.id, status: order.status, note }
+  });
+
+  await sendAdminAlert(
+    `Dispute opened on order #${order.orderNumber}`,
+    `A ${(dispute.amount / 100).toFixed(2)} ${dispute.currency.toUpperCase()} payment was disputed ` +
+      `with reason "${dispute.reason}". Respond in the Stripe dashboard before the evidence deadline.`
+  );
+}
@@ -0,0 +1,145 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getSetting } from './settings';
+
+export type TaxMode = 'inclusive' | 'exclusive';
+
+export interface TaxableLine {
+  categoryId: string | null;
+  amount: number; // Line total after discounts
+}
+
+export interface TaxBreakdownEntry {
+  name: string;
+  rate: number;
+  taxable: number; // Net amount the rate was applied to
+  amount: number;
+}
+
+// Stored on the order as `taxBreakdown`, for receipts and refunds
+export interface TaxBreakdown {
+  rates: TaxBreakdownEntry[];
+  shipping: number; // Tax on the shipping cost
+}
+
+export interface TaxResult {
+  mode: TaxMode;
+  lines: { rate: number; taxAmount: number }[]; // In the same order as the input
+  shippingTax: number;
+  taxAmount: number;
+  breakdown: TaxBreakdownEntry[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// In inclusive mode catalog prices already contain tax and it is extracted
+// for the receipt; in exclusive mode it is added on top at checkout
+export const getTaxMode = async (): Promise<TaxMode> =>
+  (await getSetting('tax_mode', 'inclusive')) === 'exclusive' ? 'exclusive' : 'inclusive';
+
+const taxFor = (amount: number, rate: number, mode: TaxMode) =>
+  round(mode === 'inclusive' ? amount * rate / (100 + rate) : amount * rate / 100);
+
+// Resolves the rate for each tax class in a zone. A zone-specific rate beats
+// the class's zone-less fallback.
+const getZoneRates = async (zoneId: string | null) => {
+  const classes = await prisma.taxClass.findMany({
+    include: {
+      rates: { where: { OR: [{ zoneId }, { zoneId: null }] } }
+    }
+  });
+
+  const rates = new Map<string, { name: string; rate: number }>();
+  let defaultRate = { name: 'VAT', rate: 0 };
+
+  for (const taxClass of classes) {
+    const rate = taxClass.rates.find(r => r.zoneId === zoneId && zoneId !== null)
+      || taxClass.rates.find(r => r.zoneId === null);
+    const resolved = rate ? { name: rate.name, rate: Number(rate.rate) } : { name: 'VAT', rate: 0 };
+
+    rates.set(taxClass.id, resolved);
+    if (taxClass.isDefault) defaultRate = resolved;
+  }
+
+  return { rates, defaultRate };
+};
+
+// ===================
+// CALCULATE
+// ===================
+export const calculateTax = async (
+  zoneId: string | null,
+  lines: TaxableLine[],
+  shippingAmount: number
+): Promise<TaxResult> => {
+  const mode = await getTaxMode();
+  const { rates, defaultRate } = await getZoneRates(zoneId);
+
+  const categoryIds = [...new Set(lines.map(l => l.categoryId).filter((id): id is string => !!id))];
+  const categories = await prisma.category.findMany({
+    where: { id: { in: categoryIds } },
+    select: { id: true, taxClassId: true },
+  });
+
+  const breakdown = new Map<string, TaxBreakdownEntry>();
+  const addToBreakdown = (name: string, rate: number, amount: number, tax: number) => {
+    const key = `${name}:${rate}`;
+    const entry = breakdown.get(key) || { name, rate, taxable: 0, amount: 0 };
+    entry.taxable = round(entry.taxable + (mode === 'inclusive' ? amount - tax : amount));
+    entry.amount = round(entry.amount + tax);
+    breakdown.set(key, entry);
+  };
+
+  const lineResults = lines.map(line => {
+    const taxClassId = categories.find(c => c.id === line.categoryId)?.taxClassId;
+    const { name, rate } = (taxClassId && rates.get(taxClassId)) || defaultRate;
+    const taxAmount = taxFor(line.amount, rate, mode);
+
+    addToBreakdown(name, rate, line.amount, taxAmount);
+    return { rate, taxAmount };
+  });
+
+  let shippingTax = 0;
+  if (shippingAmount > 0 && await getSetting('tax_shipping', true)) {
+    shippingTax = taxFor(shippingAmount, defaultRate.rate, mode);
+    addToBreakdown(defaultRate.name, defaultRate.rate, shippingAmount, shippingTax);
+  }
+
+  return {
+    mode,
+    lines: lineResults,
+    shippingTax,
+    taxAmount: round(lineResults.reduce((sum, l) => sum + l.taxAmount, 0) + shippingTax),
+    breakdown: [...breakdown.values()].filter(entry => entry.rate > 0),
+  };
+};
+
+// ===================
+// STORED BREAKDOWN
+// ===================
+export const toStoredTaxBreakdown = (tax: TaxResult): Prisma.InputJsonObject => ({
+  rates: tax.breakdown.map(({ name, rate, taxable, amount }) => ({ name, rate, taxable, amount })),
+  shipping: tax.shippingTax,
+});
+
+const isBreakdownEntry = (value: unknown): value is TaxBreakdownEntry => {
+  const entry = value as Partial<TaxBreakdownEntry> | null;
+  return typeof entry === 'object' && entry !== null &&
+    typeof entry.name === 'string' &&
+    typeof entry.rate === 'number' &&
+    typeof entry.taxable === 'number' &&
+    typeof entry.amount === 'number';
+};
+
+// Reads an order's `taxBreakdown` back. Orders placed before taxes were
+// stored have none, which reads as null like a malformed value does.
+export const parseTaxBreakdown = (value: Prisma.JsonValue | null | undefined): TaxBreakdown | null => {
+  const stored = value as { rates?: unknown; shipping?: unknown } | null | undefined;
+  if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) {
+    return null;
+  }
+  if (!Array.isArray(stored.rates) || !stored.rates.every(isBreakdownEntry) || typeof stored.shipping !== 'number') {
+    return null;
+  }
+  return { rates: stored.rates, shipping: stored.shipping };
+};
@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import { Prisma, UserTokenType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+type Tx = Prisma.TransactionClient;
+
+export class UserTokenError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserTokenError';
+  }
+}
+
+const hashToken = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Counts tokens of a type issued to the user since `since`, used to throttle
+// how many emails a single account can trigger
+export const countRecentUserTokens = (userId: string, type: UserTokenType, since: Date) =>
+  prisma.userToken.count({
+    where: { userId, type, createdAt: { gte: since } }
+  });
+
+// ===================
+// ISSUE
+// ===================
+// Returns the raw token for the email link. Earlier unused tokens of the
+// same type stop working, so only the latest email's link is valid.
+export const createUserToken = async (userId: string, type: UserTokenType, ttlMs: number) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null, expiresAt: { gt: now } },
+      data: { expiresAt: now },
+    }),
+    prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + ttlMs),
+      }
+    }),
+  ]);
+
+  return token;
+};
+
+// ===================
+// CONSUME
+// ===================
+// Marks the token used and returns its user ID. The conditional update
+// makes two simultaneous requests with the same link fail for one of them.
+export const consumeUserToken = async (tx: Tx, token: string, type: UserTokenType) => {
+  const now = new Date();
+  const tokenHash = hashToken(token);
+
+  const { count } = await tx.userToken.updateMany({
+    where: { tokenHash, type, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now },
+  });
+  if (count === 0) {
+    throw new UserTokenError('This link is invalid or has expired');
+  }
+
+  const { userId } = await tx.userToken.findUniqueOrThrow({
+    where: { tokenHash },
+    select: { userId: true },
+  });
+  return userId;
+};
+
+// Used and expired tokens are only kept for throttling, which looks back an
+// hour at most
+export const purgeExpiredUserTokens = async () => {
+  const { count } = await prisma.userToken.deleteMany({
+    where: { expiresAt: { lt: new Date(Date.now() - 24 * 60 * 60 * 1000) } }
+  });
+  return count;
+};
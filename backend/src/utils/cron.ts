@@ -0,0 +1,130 @@
+// Minimal cron expression support for job schedules
+// Format: minute hour day-of-month month day-of-week (e.g., "*/15 * * * *")
+// Each field accepts *, a number, ranges (1-5), steps (*/5, 10-30/10) and
+// comma separated lists. Day of week is 0-6 with 0 = Sunday. Times are UTC.
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 6],  // day of week
+];
+
+// Far enough to find the next run of any valid expression (Feb 29 included)
+const MAX_SEARCH_YEARS = 5;
+
+const parseField = (field: string, [min, max]: [number, number]) => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepStr] = part.split('/');
+    const step = stepStr === undefined ? 1 : parseInt(stepStr, 10);
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      [start, end] = [min, max];
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map(n => parseInt(n, 10));
+    } else {
+      start = parseInt(range, 10);
+      end = stepStr === undefined ? start : max;
+    }
+
+    if ([start, end, step].some(Number.isNaN) || start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+export const parseCron = (expression: string): CronFields => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseField(field, FIELD_RANGES[i]));
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*',
+  };
+};
+
+export const isValidCron = (expression: string) => {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Like standard cron, when both day fields are restricted a date matching
+// either one runs
+const matchesDay = (cron: CronFields, date: Date) => {
+  const dayMatch = cron.days.has(date.getUTCDate());
+  const weekdayMatch = cron.weekdays.has(date.getUTCDay());
+
+  if (cron.anyDay && cron.anyWeekday) return true;
+  if (cron.anyDay) return weekdayMatch;
+  if (cron.anyWeekday) return dayMatch;
+  return dayMatch || weekdayMatch;
+};
+
+// The first time strictly after `from` that matches the expression
+export const getNextCronDate = (expression: string, from: Date = new Date()): Date => {
+  const cron = parseCron(expression);
+
+  const date = new Date(from);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = from.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error(`Cron expression "${expression}" never runs`);
+};
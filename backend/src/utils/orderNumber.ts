@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+
 // Generate unique order number
 // Format: ZPS-YYYYMMDD-XXXX (e.g., ZPS-20240115-A3B7)
 export const generateOrderNumber = (): string => {
@@ -33,3 +35,19 @@ export const formatCurrency = (amount: number, currency: string = 'ILS'): string
     currency,
   }).format(amount);
 };
+
+// Generate return merchandise authorization number
+// Format: RMA-YYYYMMDD-XXXX (e.g., RMA-20240115-K2P9)
+export const generateRmaNumber = (): string => {
+  const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `RMA-${dateStr}-${random}`;
+};
+
+// Generate one-time discount code for cart recovery emails
+// Format: COMEBACK-XXXXXXXXXX (e.g., COMEBACK-3F9A0C7B12). Random bytes
+// rather than Math.random since the code is worth money.
+export const generateRecoveryCode = (): string => {
+  const random = crypto.randomBytes(5).toString('hex').toUpperCase();
+  return `COMEBACK-${random}`;
+};
@@ -0,0 +1,38 @@
+// Rough device description for the session list, e.g. "Chrome on macOS".
+// Only needs to be good enough for a customer to recognise their devices.
+
+const BROWSERS: [RegExp, string][] = [
+  // Order matters: Edge and Opera also claim to be Chrome, Chrome claims
+  // to be Safari
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (userAgent: string, patterns: [RegExp, string][]) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] || null;
+
+export const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const platform = match(userAgent, PLATFORMS);
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || 'Unknown device';
+};
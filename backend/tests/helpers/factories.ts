@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../src/lib/prisma';
+
+// Every record gets a unique suffix so tests never see each other's rows
+const unique = () => crypto.randomBytes(6).toString('hex');
+
+export const createProduct = async (data: Partial<Prisma.ProductUncheckedCreateInput> = {}) => {
+  const suffix = unique();
+  const category = await prisma.category.create({
+    data: { name: `Category ${suffix}`, slug: `category-${suffix}` },
+  });
+
+  return prisma.product.create({
+    data: {
+      name: `Product ${suffix}`,
+      slug: `product-${suffix}`,
+      description: 'Test product',
+      price: 100,
+      quantity: 1,
+      categoryId: category.id,
+      ...data,
+    },
+  });
+};
+
+export const createOrder = (data: Partial<Prisma.OrderUncheckedCreateInput> = {}) =>
+  prisma.order.create({
+    data: {
+      orderNumber: `TEST-${unique()}`,
+      email: 'customer@example.com',
+      subtotal: 100,
+      total: 100,
+      ...data,
+    },
+  });
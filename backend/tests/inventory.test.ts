@@ -0,0 +1,67 @@
+import { prisma } from '../src/lib/prisma';
+import { InsufficientStockError, RESERVATION_TTL_MS, reserveStock } from '../src/services/inventory';
+import { createOrder, createProduct } from './helpers/factories';
+
+afterAll(() => prisma.$disconnect());
+
+// What checkout does: create the order and hold its stock in one transaction
+const checkout = (productId: string, quantity = 1) =>
+  prisma.$transaction(async (tx) => {
+    const order = await tx.order.create({
+      data: { orderNumber: `RACE-${Math.random().toString(36).slice(2)}`, email: 'race@example.com', subtotal: 100, total: 100 },
+    });
+    await reserveStock(tx, order.id, [{ productId, quantity }], new Date(Date.now() + RESERVATION_TTL_MS));
+    return order;
+  });
+
+describe('reserveStock', () => {
+  it('lets only one of two concurrent checkouts take the last unit', async () => {
+    const product = await createProduct({ quantity: 1 });
+
+    const results = await Promise.allSettled([checkout(product.id), checkout(product.id)]);
+
+    const succeeded = results.filter(r => r.status === 'fulfilled');
+    const failed = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(succeeded).toHaveLength(1);
+    expect(failed).toHaveLength(1);
+    expect(failed[0].reason).toBeInstanceOf(InsufficientStockError);
+
+    const after = await prisma.product.findUniqueOrThrow({ where: { id: product.id } });
+    expect(after.quantity).toBe(0);
+
+    // The losing checkout's order and hold were rolled back with it
+    const reservations = await prisma.stockReservation.findMany({ where: { productId: product.id } });
+    expect(reservations).toHaveLength(1);
+    expect(reservations[0].orderId).toBe((succeeded[0] as PromiseFulfilledResult<{ id: string }>).value.id);
+  });
+
+  it('never oversells under many concurrent checkouts', async () => {
+    const product = await createProduct({ quantity: 3 });
+
+    const results = await Promise.allSettled(Array.from({ length: 8 }, () => checkout(product.id)));
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(3);
+    const after = await prisma.product.findUniqueOrThrow({ where: { id: product.id } });
+    expect(after.quantity).toBe(0);
+  });
+
+  it('holds variant stock on the variant', async () => {
+    const product = await createProduct({ quantity: 0 });
+    const variant = await prisma.productVariant.create({
+      data: { productId: product.id, name: 'Gold', price: 100, quantity: 1, options: { color: 'Gold' } },
+    });
+    const order = await createOrder();
+
+    await prisma.$transaction((tx) =>
+      reserveStock(tx, order.id, [{ productId: product.id, variantId: variant.id, quantity: 1 }], new Date(Date.now() + RESERVATION_TTL_MS))
+    );
+
+    const after = await prisma.productVariant.findUniqueOrThrow({ where: { id: variant.id } });
+    expect(after.quantity).toBe(0);
+    await expect(
+      prisma.$transaction((tx) =>
+        reserveStock(tx, order.id, [{ productId: product.id, variantId: variant.id, quantity: 1 }], new Date())
+      )
+    ).rejects.toBeInstanceOf(InsufficientStockError);
+  });
+});
@@ -0,0 +1,5 @@
+// Modules read these when they are imported. Nothing in the tests talks to
+// Stripe or sends email.
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET ??= 'test-jwt-secret';
+process.env.STRIPE_SECRET_KEY ??= 'sk_test_placeholder';
@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import Stripe from 'stripe';
+import { prisma } from '../src/lib/prisma';
+import { stripe } from '../src/lib/stripe';
+import { RESERVATION_TTL_MS, reserveStock } from '../src/services/inventory';
+import { createRefund } from '../src/services/refunds';
+import { processStripeEvent, recordStripeEvent, retryFailedStripeEvents } from '../src/services/stripeWebhooks';
+import { createOrder, createProduct } from './helpers/factories';
+import '../src/jobs/definitions';
+
+jest.mock('../src/services/email', () => ({
+  ...jest.requireActual('../src/services/email'),
+  sendRefundNotification: jest.fn(),
+  sendAdminAlert: jest.fn(),
+}));
+
+afterAll(() => prisma.$disconnect());
+
+const checkoutCompleted = (orderId: string) => ({
+  id: `evt_${crypto.randomBytes(8).toString('hex')}`,
+  object: 'event',
+  type: 'checkout.session.completed',
+  data: {
+    object: {
+      id: `cs_${crypto.randomBytes(8).toString('hex')}`,
+      object: 'checkout.session',
+      status: 'complete',
+      payment_status: 'paid',
+      payment_intent: `pi_${crypto.randomBytes(8).toString('hex')}`,
+      metadata: { orderId },
+    },
+  },
+}) as unknown as Stripe.Event;
+
+const refundUpdated = (refundId: string, status: string) => ({
+  id: `evt_${crypto.randomBytes(8).toString('hex')}`,
+  object: 'event',
+  type: 'refund.updated',
+  data: {
+    object: {
+      id: `re_${crypto.randomBytes(8).toString('hex')}`,
+      object: 'refund',
+      status,
+      failure_reason: status === 'failed' ? 'expired_or_canceled_card' : null,
+      metadata: { refundId },
+    },
+  },
+}) as unknown as Stripe.Event;
+
+// The same steps as the webhook route once the signature is verified
+const deliver = async (event: Stripe.Event) => {
+  const record = await recordStripeEvent(event);
+  return record.status === 'PROCESSED' ? record : processStripeEvent(event.id);
+};
+
+// A pending order holding the last unit of a product, with a discount code
+const createPendingOrder = async (orderId?: string) => {
+  const product = await createProduct({ quantity: 1 });
+  const discount = await prisma.discountCode.create({
+    data: { code: `TEST${crypto.randomBytes(4).toString('hex').toUpperCase()}`, type: 'PERCENTAGE', value: 10 },
+  });
+  const order = await createOrder({ ...(orderId && { id: orderId }) });
+
+  await prisma.$transaction((tx) =>
+    reserveStock(tx, order.id, [{ productId: product.id, quantity: 1 }], new Date(Date.now() + RESERVATION_TTL_MS))
+  );
+  await prisma.discountRedemption.create({
+    data: { discountCodeId: discount.id, orderId: order.id, email: order.email, amount: 10 },
+  });
+
+  return { order, product, discount };
+};
+
+// Everything paying an order does exactly once
+const expectPaidOnce = async ({ order, product, discount }: Awaited<ReturnType<typeof createPendingOrder>>) => {
+  const paid = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+  expect(paid.status).toBe('CONFIRMED');
+  expect(paid.paymentStatus).toBe('PAID');
+
+  const timeline = await prisma.orderTimeline.findMany({
+    where: { orderId: order.id, note: 'Payment received via Stripe' },
+  });
+  expect(timeline).toHaveLength(1);
+
+  const reservations = await prisma.stockReservation.findMany({ where: { orderId: order.id } });
+  expect(reservations.map(r => r.status)).toEqual(['CONVERTED']);
+  const stock = await prisma.product.findUniqueOrThrow({ where: { id: product.id } });
+  expect(stock.quantity).toBe(0);
+
+  const code = await prisma.discountCode.findUniqueOrThrow({ where: { id: discount.id } });
+  expect(code.usedCount).toBe(1);
+
+  const confirmations = await prisma.job.findMany({
+    where: { name: 'send-order-confirmation', uniqueKey: `order-confirmation:${order.id}` },
+  });
+  expect(confirmations).toHaveLength(1);
+};
+
+describe('Stripe webhook processing', () => {
+  it('pays the order once when the same event is delivered twice', async () => {
+    const setup = await createPendingOrder();
+    const event = checkoutCompleted(setup.order.id);
+
+    const first = await deliver(event);
+    const second = await deliver(event);
+
+    expect(first.status).toBe('PROCESSED');
+    expect(second.status).toBe('PROCESSED');
+    await expectPaidOnce(setup);
+
+    const record = await prisma.webhookEvent.findUniqueOrThrow({ where: { id: event.id } });
+    expect(record.attempts).toBe(1);
+    expect(await prisma.webhookEvent.count({ where: { id: event.id } })).toBe(1);
+  });
+
+  it('handles an event once when two deliveries arrive at the same time', async () => {
+    const setup = await createPendingOrder();
+    const event = checkoutCompleted(setup.order.id);
+
+    await Promise.all([deliver(event), deliver(event)]);
+
+    await expectPaidOnce(setup);
+    const record = await prisma.webhookEvent.findUniqueOrThrow({ where: { id: event.id } });
+    expect(record.status).toBe('PROCESSED');
+    expect(record.attempts).toBe(1);
+  });
+
+  it('marks a failing event for retry and processes it from the retry queue', async () => {
+    // The order doesn't exist yet, so the handler throws
+    const orderId = `order_${crypto.randomBytes(8).toString('hex')}`;
+    const event = checkoutCompleted(orderId);
+
+    const failed = await deliver(event);
+    expect(failed.status).toBe('FAILED');
+    expect(failed.attempts).toBe(1);
+    expect(failed.lastError).toBeTruthy();
+    expect(failed.nextRetryAt!.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet: the retry queue leaves it alone
+    await retryFailedStripeEvents();
+    expect((await prisma.webhookEvent.findUniqueOrThrow({ where: { id: event.id } })).attempts).toBe(1);
+
+    const setup = await createPendingOrder(orderId);
+    await prisma.webhookEvent.update({ where: { id: event.id }, data: { nextRetryAt: new Date(Date.now() - 1000) } });
+
+    await retryFailedStripeEvents();
+
+    const retried = await prisma.webhookEvent.findUniqueOrThrow({ where: { id: event.id } });
+    expect(retried.status).toBe('PROCESSED');
+    expect(retried.attempts).toBe(2);
+    expect(retried.lastError).toBeNull();
+    await expectPaidOnce(setup);
+  });
+
+  it('reclaims an event left in PROCESSING by a crashed process', async () => {
+    const setup = await createPendingOrder();
+    const event = checkoutCompleted(setup.order.id);
+    await recordStripeEvent(event);
+
+    await prisma.webhookEvent.update({ where: { id: event.id }, data: { status: 'PROCESSING', attempts: 1 } });
+
+    // Still within the processing timeout: someone else may be on it
+    expect((await processStripeEvent(event.id)).status).toBe('PROCESSING');
+
+    await prisma.$executeRaw`UPDATE "WebhookEvent" SET "updatedAt" = now() - interval '1 hour' WHERE id = ${event.id}`;
+    await retryFailedStripeEvents();
+
+    const record = await prisma.webhookEvent.findUniqueOrThrow({ where: { id: event.id } });
+    expect(record.status).toBe('PROCESSED');
+    await expectPaidOnce(setup);
+  });
+
+  it('replays a processed event without paying the order again', async () => {
+    const setup = await createPendingOrder();
+    const event = checkoutCompleted(setup.order.id);
+    await deliver(event);
+
+    // Without force a processed event isn't claimed again
+    expect((await processStripeEvent(event.id)).attempts).toBe(1);
+
+    const replayed = await processStripeEvent(event.id, { force: true });
+
+    expect(replayed.status).toBe('PROCESSED');
+    expect(replayed.attempts).toBe(2);
+    await expectPaidOnce(setup);
+  });
+
+  it('gives a failed refund back to the refundable balance once', async () => {
+    const order = await createOrder({
+      status: 'CONFIRMED',
+      paymentStatus: 'PARTIALLY_REFUNDED',
+      refundedAmount: 40,
+    });
+    const refund = await prisma.refund.create({ data: { orderId: order.id, amount: 40 } });
+
+    await deliver(refundUpdated(refund.id, 'failed'));
+    await deliver(refundUpdated(refund.id, 'failed'));
+
+    expect((await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } })).status).toBe('FAILED');
+    const updated = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+    expect(Number(updated.refundedAmount)).toBe(0);
+    expect(updated.paymentStatus).toBe('PAID');
+    expect(updated.status).toBe('CONFIRMED');
+  });
+
+  it('reopens a fully refunded order when its refund fails, so it can be refunded again', async () => {
+    const order = await createOrder({
+      status: 'REFUNDED',
+      paymentStatus: 'REFUNDED',
+      refundedAmount: 100,
+      stripePaymentIntentId: `pi_${crypto.randomBytes(8).toString('hex')}`,
+      timeline: {
+        create: [
+          { status: 'CONFIRMED', note: 'Payment received via Stripe' },
+          { status: 'REFUNDED', note: 'Refunded 100.00 ILS' },
+        ]
+      },
+    });
+    const failedRefund = await prisma.refund.create({ data: { orderId: order.id, amount: 100, status: 'SUCCEEDED' } });
+
+    await deliver(refundUpdated(failedRefund.id, 'failed'));
+
+    const reopened = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+    expect(reopened.status).toBe('CONFIRMED');
+    expect(reopened.paymentStatus).toBe('PAID');
+    expect(Number(reopened.refundedAmount)).toBe(0);
+
+    const stripeRefund = { id: `re_${crypto.randomBytes(8).toString('hex')}`, status: 'succeeded' };
+    const refundsCreate = jest.spyOn(stripe.refunds, 'create')
+      .mockResolvedValue(stripeRefund as unknown as Stripe.Response<Stripe.Refund>);
+    try {
+      const refund = await createRefund(order.id, { amount: 100 });
+      expect(refund.status).toBe('SUCCEEDED');
+    } finally {
+      refundsCreate.mockRestore();
+    }
+
+    const refunded = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+    expect(refunded.status).toBe('REFUNDED');
+    expect(refunded.paymentStatus).toBe('REFUNDED');
+    expect(Number(refunded.refundedAmount)).toBe(100);
+  });
+
+  it('marks a pending refund as succeeded', async () => {
+    const order = await createOrder({ status: 'CONFIRMED', paymentStatus: 'PARTIALLY_REFUNDED', refundedAmount: 40 });
+    const refund = await prisma.refund.create({ data: { orderId: order.id, amount: 40 } });
+
+    await deliver(refundUpdated(refund.id, 'succeeded'));
+
+    expect((await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } })).status).toBe('SUCCEEDED');
+    expect(Number((await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).refundedAmount)).toBe(40);
+  });
+});
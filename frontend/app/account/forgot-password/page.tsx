@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { motion } from 'framer-motion';
+import { Mail, ArrowRight, ArrowLeft, CheckCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Please enter a valid email'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await api.post('/auth/forgot-password', data);
+      setSentTo(data.email);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Something went wrong');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-luxury-pearl flex items-center justify-center py-16 px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-md w-full bg-white border border-primary-200 p-8 md:p-12"
+      >
+        <div className="text-center mb-8">
+          <Link href="/">
+            <span className="font-display text-3xl">Zamanẻ</span>
+          </Link>
+        </div>
+
+        {sentTo ? (
+          <div className="text-center">
+            <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-green-100 flex items-center justify-center">
+              <CheckCircle className="w-10 h-10 text-green-600" />
+            </div>
+            <h1 className="font-display text-3xl mb-4">Check Your Email</h1>
+            <p className="text-primary-600 mb-8">
+              If an account exists for <span className="font-medium">{sentTo}</span>, you'll
+              receive a link to reset your password. The link expires in 1 hour.
+            </p>
+            <Link href="/account/login" className="btn-primary inline-flex items-center justify-center gap-2">
+              Back to Sign In
+              <ArrowRight className="w-4 h-4" />
+            </Link>
+          </div>
+        ) : (
+          <>
+            <h1 className="font-display text-3xl mb-2">Forgot Password</h1>
+            <p className="text-primary-500 mb-8">
+              Enter the email you signed up with and we'll send you a link to reset your password.
+            </p>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              {/* Email */}
+              <div>
+                <label className="block text-sm font-medium mb-2">Email Address</label>
+                <div className="relative">
+                  <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-primary-400" />
+                  <input
+                    type="email"
+                    {...register('email')}
+                    className={`input-field pl-12 ${errors.email ? 'border-red-500' : ''}`}
+                    placeholder="your@email.com"
+                  />
+                </div>
+                {errors.email && (
+                  <p className="text-red-500 text-sm mt-1">{errors.email.message}</p>
+                )}
+              </div>
+
+              {/* Submit */}
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="btn-primary w-full flex items-center justify-center gap-2"
+              >
+                {isSubmitting ? (
+                  <>
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  <>
+                    Send Reset Link
+                    <ArrowRight className="w-4 h-4" />
+                  </>
+                )}
+              </button>
+            </form>
+
+            <div className="mt-8 text-center">
+              <Link
+                href="/account/login"
+                className="inline-flex items-center gap-2 text-sm text-primary-500 hover:text-primary-700"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back to Sign In
+              </Link>
+            </div>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
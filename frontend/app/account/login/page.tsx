@@ -1,15 +1,16 @@
 'use client';
 
-import { useState, Suspense } from 'react';
+import { useEffect, useState, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { motion } from 'framer-motion';
-import { Mail, Lock, Eye, EyeOff, ArrowRight, Sparkles } from 'lucide-react';
+import { Mail, Lock, Eye, EyeOff, ArrowRight, Sparkles, ShieldCheck } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useAuthStore } from '@/stores/authStore';
+import SocialLoginButtons from '@/components/auth/SocialLoginButtons';
 
 const loginSchema = z.object({
   email: z.string().email('Please enter a valid email'),
@@ -22,9 +23,20 @@ function LoginContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const redirect = searchParams.get('redirect') || '/';
+  const oauthError = searchParams.get('error');
   
-  const { login, isLoading } = useAuthStore();
+  const { login, verifyTwoFactor, isLoading } = useAuthStore();
   const [showPassword, setShowPassword] = useState(false);
+  // Social sign-ins that need a code come back here with ?twoFactor=1
+  const [twoFactorStep, setTwoFactorStep] = useState(searchParams.get('twoFactor') === '1');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+
+  // Social sign-in failures come back here from the API
+  useEffect(() => {
+    if (oauthError) {
+      toast.error(oauthError);
+    }
+  }, [oauthError]);
 
   const {
     register,
@@ -36,7 +48,11 @@ function LoginContent() {
 
   const onSubmit = async (data: LoginFormData) => {
     try {
-      await login(data.email, data.password);
+      const needsCode = await login(data.email, data.password);
+      if (needsCode) {
+        setTwoFactorStep(true);
+        return;
+      }
       toast.success('Welcome back!');
       router.push(redirect);
     } catch (error: any) {
@@ -44,6 +60,26 @@ function LoginContent() {
     }
   };
 
+  const onSubmitTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { recoveryCodesRemaining } = await verifyTwoFactor(twoFactorCode);
+      if (recoveryCodesRemaining !== undefined && recoveryCodesRemaining <= 3) {
+        toast(`Only ${recoveryCodesRemaining} recovery codes left. Generate new ones from your account page.`);
+      }
+      toast.success('Welcome back!');
+      router.push(redirect);
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Verification failed';
+      toast.error(message);
+      // The challenge expired; start over with the password
+      if (error.response?.status === 401) {
+        setTwoFactorStep(false);
+        setTwoFactorCode('');
+      }
+    }
+  };
+
   return (
     <div className="min-h-screen bg-luxury-black flex">
       {/* Left Side - Branding */}
@@ -101,117 +137,148 @@ function LoginContent() {
             </Link>
           </div>
 
-          <h2 className="font-display text-3xl mb-2">Sign In</h2>
-          <p className="text-primary-500 mb-8">
-            Don't have an account?{' '}
-            <Link href="/account/register" className="text-gold-600 hover:underline">
-              Create one
-            </Link>
-          </p>
+          {twoFactorStep ? (
+            <>
+              <h2 className="font-display text-3xl mb-2">Two-Factor Authentication</h2>
+              <p className="text-primary-500 mb-8">
+                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+              </p>
 
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-            {/* Email */}
-            <div>
-              <label className="block text-sm font-medium mb-2">Email Address</label>
-              <div className="relative">
-                <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-primary-400" />
-                <input
-                  type="email"
-                  {...register('email')}
-                  className={`input-field pl-12 ${errors.email ? 'border-red-500' : ''}`}
-                  placeholder="your@email.com"
-                />
-              </div>
-              {errors.email && (
-                <p className="text-red-500 text-sm mt-1">{errors.email.message}</p>
-              )}
-            </div>
-
-            {/* Password */}
-            <div>
-              <div className="flex items-center justify-between mb-2">
-                <label className="text-sm font-medium">Password</label>
-                <Link href="/account/forgot-password" className="text-sm text-gold-600 hover:underline">
-                  Forgot password?
+              <form onSubmit={onSubmitTwoFactor} className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Verification Code</label>
+                  <div className="relative">
+                    <ShieldCheck className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-primary-400" />
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      autoFocus
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      className="input-field pl-12 tracking-widest"
+                      placeholder="123456"
+                    />
+                  </div>
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isLoading || !twoFactorCode.trim()}
+                  className="btn-primary w-full flex items-center justify-center gap-2"
+                >
+                  {isLoading ? (
+                    <>
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    <>
+                      Verify
+                      <ArrowRight className="w-4 h-4" />
+                    </>
+                  )}
+                </button>
+              </form>
+
+              <button
+                onClick={() => {
+                  setTwoFactorStep(false);
+                  setTwoFactorCode('');
+                }}
+                className="mt-6 text-sm text-primary-500 hover:text-primary-700"
+              >
+                ← Back to sign in
+              </button>
+            </>
+          ) : (
+            <>
+              <h2 className="font-display text-3xl mb-2">Sign In</h2>
+              <p className="text-primary-500 mb-8">
+                Don't have an account?{' '}
+                <Link href="/account/register" className="text-gold-600 hover:underline">
+                  Create one
                 </Link>
-              </div>
-              <div className="relative">
-                <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-primary-400" />
-                <input
-                  type={showPassword ? 'text' : 'password'}
-                  {...register('password')}
-                  className={`input-field pl-12 pr-12 ${errors.password ? 'border-red-500' : ''}`}
-                  placeholder="••••••••"
-                />
+              </p>
+
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                {/* Email */}
+                <div>
+                  <label className="block text-sm font-medium mb-2">Email Address</label>
+                  <div className="relative">
+                    <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-primary-400" />
+                    <input
+                      type="email"
+                      {...register('email')}
+                      className={`input-field pl-12 ${errors.email ? 'border-red-500' : ''}`}
+                      placeholder="your@email.com"
+                    />
+                  </div>
+                  {errors.email && (
+                    <p className="text-red-500 text-sm mt-1">{errors.email.message}</p>
+                  )}
+                </div>
+
+                {/* Password */}
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-sm font-medium">Password</label>
+                    <Link href="/account/forgot-password" className="text-sm text-gold-600 hover:underline">
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <div className="relative">
+                    <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-primary-400" />
+                    <input
+                      type={showPassword ? 'text' : 'password'}
+                      {...register('password')}
+                      className={`input-field pl-12 pr-12 ${errors.password ? 'border-red-500' : ''}`}
+                      placeholder="••••••••"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-4 top-1/2 -translate-y-1/2 text-primary-400 hover:text-primary-600"
+                    >
+                      {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                    </button>
+                  </div>
+                  {errors.password && (
+                    <p className="text-red-500 text-sm mt-1">{errors.password.message}</p>
+                  )}
+                </div>
+
+                {/* Submit */}
                 <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-4 top-1/2 -translate-y-1/2 text-primary-400 hover:text-primary-600"
+                  type="submit"
+                  disabled={isLoading}
+                  className="btn-primary w-full flex items-center justify-center gap-2"
                 >
-                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  {isLoading ? (
+                    <>
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      Signing in...
+                    </>
+                  ) : (
+                    <>
+                      Sign In
+                      <ArrowRight className="w-4 h-4" />
+                    </>
+                  )}
                 </button>
-              </div>
-              {errors.password && (
-                <p className="text-red-500 text-sm mt-1">{errors.password.message}</p>
-              )}
-            </div>
-
-            {/* Submit */}
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="btn-primary w-full flex items-center justify-center gap-2"
-            >
-              {isLoading ? (
-                <>
-                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                <>
-                  Sign In
-                  <ArrowRight className="w-4 h-4" />
-                </>
-              )}
-            </button>
-          </form>
-
-          {/* Divider */}
-          <div className="relative my-8">
-            <div className="absolute inset-0 flex items-center">
-              <div className="w-full border-t border-primary-200" />
-            </div>
-            <div className="relative flex justify-center text-sm">
-              <span className="px-4 bg-white text-primary-500">Or continue with</span>
-            </div>
-          </div>
+              </form>
 
-          {/* Social Login */}
-          <div className="grid grid-cols-2 gap-4">
-            <button className="btn-secondary flex items-center justify-center gap-2">
-              <svg className="w-5 h-5" viewBox="0 0 24 24">
-                <path fill="currentColor" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-                <path fill="currentColor" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-                <path fill="currentColor" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
-                <path fill="currentColor" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-              </svg>
-              Google
-            </button>
-            <button className="btn-secondary flex items-center justify-center gap-2">
-              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-                <path d="M12 2C6.477 2 2 6.477 2 12c0 4.991 3.657 9.128 8.438 9.879V14.89h-2.54V12h2.54V9.797c0-2.506 1.492-3.89 3.777-3.89 1.094 0 2.238.195 2.238.195v2.46h-1.26c-1.243 0-1.63.771-1.63 1.562V12h2.773l-.443 2.89h-2.33v6.989C18.343 21.129 22 16.99 22 12c0-5.523-4.477-10-10-10z"/>
-              </svg>
-              Facebook
-            </button>
-          </div>
+              <SocialLoginButtons redirect={redirect} />
 
-          {/* Guest Checkout */}
-          {redirect === '/checkout' && (
-            <div className="mt-8 text-center">
-              <Link href="/checkout" className="text-sm text-primary-500 hover:text-primary-700">
-                Continue as guest →
-              </Link>
-            </div>
+              {/* Guest Checkout */}
+              {redirect === '/checkout' && (
+                <div className="mt-8 text-center">
+                  <Link href="/checkout" className="text-sm text-primary-500 hover:text-primary-700">
+                    Continue as guest →
+                  </Link>
+                </div>
+              )}
+            </>
           )}
         </motion.div>
       </div>
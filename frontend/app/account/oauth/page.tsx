@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useRef, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { useAuthStore } from '@/stores/authStore';
+import { useCartStore } from '@/stores/cartStore';
+
+// The API redirects here after a social sign-in has set the session cookies
+function OAuthCompleteContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const redirect = searchParams.get('redirect') || '/';
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const complete = async () => {
+      await useAuthStore.getState().fetchUser();
+
+      const { user } = useAuthStore.getState();
+      if (!user) {
+        toast.error('Sign-in failed, please try again');
+        router.replace('/account/login');
+        return;
+      }
+
+      // Bring along anything added to the cart as a guest
+      await useCartStore.getState().mergeGuestCart().catch(() => {});
+
+      toast.success(`Welcome, ${user.firstName}!`);
+      router.replace(redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/');
+    };
+
+    complete();
+  }, [redirect, router]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="animate-spin w-8 h-8 border-2 border-gold-500 border-t-transparent rounded-full" />
+    </div>
+  );
+}
+
+export default function OAuthCompletePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-gold-500 border-t-transparent rounded-full" />
+      </div>
+    }>
+      <OAuthCompleteContent />
+    </Suspense>
+  );
+}
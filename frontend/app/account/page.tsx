@@ -0,0 +1,322 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import {
+  Monitor, Smartphone, LogOut, CheckCircle, AlertCircle, ShieldCheck, Link2,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { api, API_URL, formatDate } from '@/lib/api';
+import TwoFactorSettings from '@/components/auth/TwoFactorSettings';
+import PrivacySettings from '@/components/auth/PrivacySettings';
+import { useAuthStore } from '@/stores/authStore';
+
+interface DeviceSession {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  signedInAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+interface LinkedAccount {
+  provider: string;
+  email: string | null;
+  createdAt: string;
+}
+
+interface Provider {
+  id: string;
+  name: string;
+}
+
+const MOBILE_DEVICES = ['iPhone', 'iPad', 'Android'];
+
+const formatLastUsed = (date: string) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 5) return 'Active now';
+  if (minutes < 60) return `${minutes} minutes ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} hours ago`;
+  return formatDate(date);
+};
+
+export default function AccountPage() {
+  const router = useRouter();
+  const { user, isAuthenticated, logout, resendVerification } = useAuthStore();
+
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [linkedAccounts, setLinkedAccounts] = useState<LinkedAccount[]>([]);
+  const [hasPassword, setHasPassword] = useState(true);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.replace('/account/login?redirect=/account');
+    }
+  }, [isAuthenticated, router]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const fetchSessions = async () => {
+      try {
+        const res = await api.get('/auth/sessions');
+        setSessions(res.data.sessions);
+      } catch (error) {
+        // Signed out, handled by the redirect above
+      } finally {
+        setIsLoadingSessions(false);
+      }
+    };
+
+    const fetchLinkedAccounts = async () => {
+      try {
+        const [providersRes, accountsRes] = await Promise.all([
+          api.get('/auth/oauth/providers'),
+          api.get('/auth/oauth/accounts'),
+        ]);
+        setProviders(providersRes.data.providers);
+        setLinkedAccounts(accountsRes.data.accounts);
+        setHasPassword(accountsRes.data.hasPassword);
+      } catch (error) {
+        // Section stays empty
+      }
+    };
+
+    fetchSessions();
+    fetchLinkedAccounts();
+  }, [isAuthenticated]);
+
+  // Connecting a provider comes back here from the API
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const linked = params.get('linked');
+    const error = params.get('error');
+    if (!linked && !error) return;
+
+    if (linked) toast.success('Account connected');
+    if (error) toast.error(error);
+    router.replace('/account');
+  }, [router]);
+
+  const handleRevoke = async (session: DeviceSession) => {
+    if (session.current) {
+      await logout();
+      router.push('/');
+      return;
+    }
+
+    setRevoking(session.id);
+    try {
+      await api.delete(`/auth/sessions/${session.id}`);
+      setSessions((current) => current.filter((s) => s.id !== session.id));
+      toast.success(`Signed out of ${session.device}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Could not sign out that device');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setRevoking('others');
+    try {
+      const res = await api.delete('/auth/sessions');
+      setSessions((current) => current.filter((s) => s.current));
+      toast.success(res.data.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Could not sign out other devices');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleDisconnect = async (provider: Provider) => {
+    try {
+      await api.delete(`/auth/oauth/accounts/${provider.id}`);
+      setLinkedAccounts((current) => current.filter((a) => a.provider !== provider.id));
+      toast.success(`${provider.name} disconnected`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Could not disconnect the account');
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      toast.success(await resendVerification());
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Could not send the email');
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-gold-500 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  const otherSessions = sessions.filter((s) => !s.current);
+
+  return (
+    <div className="min-h-screen bg-luxury-pearl pt-32 pb-16">
+      <div className="container-custom max-w-3xl">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <div className="flex items-center justify-between mb-8">
+            <h1 className="font-display text-4xl">My Account</h1>
+            <button
+              onClick={async () => {
+                await logout();
+                router.push('/');
+              }}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign Out
+            </button>
+          </div>
+
+          {/* Profile */}
+          <section className="bg-white border border-primary-200 p-6 md:p-8 mb-6">
+            <h2 className="font-display text-2xl mb-4">Profile</h2>
+            <p className="text-lg">{user.firstName} {user.lastName}</p>
+            <div className="flex flex-wrap items-center gap-3 mt-1">
+              <p className="text-primary-600">{user.email}</p>
+              {user.emailVerified ? (
+                <span className="inline-flex items-center gap-1 text-sm text-green-700">
+                  <CheckCircle className="w-4 h-4" />
+                  Verified
+                </span>
+              ) : (
+                <span className="inline-flex items-center gap-1 text-sm text-amber-700">
+                  <AlertCircle className="w-4 h-4" />
+                  Not verified
+                  <button onClick={handleResendVerification} className="text-gold-700 font-medium hover:underline ml-1">
+                    Resend email
+                  </button>
+                </span>
+              )}
+            </div>
+          </section>
+
+          {/* Two-Factor */}
+          <TwoFactorSettings
+            hasPassword={hasPassword}
+            onEnabled={() => setSessions((current) => current.filter((s) => s.current))}
+          />
+
+          {/* Connected Accounts */}
+          {providers.length > 0 && (
+            <section className="bg-white border border-primary-200 p-6 md:p-8 mb-6">
+              <h2 className="font-display text-2xl mb-2">Connected Accounts</h2>
+              <p className="text-primary-500 text-sm mb-6">
+                {hasPassword
+                  ? 'Sign in with these as well as your password.'
+                  : "You don't have a password yet. Use \"Forgot password\" on the sign-in page to set one."}
+              </p>
+
+              <ul className="divide-y divide-primary-100">
+                {providers.map((provider) => {
+                  const account = linkedAccounts.find((a) => a.provider === provider.id);
+                  return (
+                    <li key={provider.id} className="flex items-center gap-4 py-4">
+                      <Link2 className="w-6 h-6 text-primary-400 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium">{provider.name}</p>
+                        <p className="text-sm text-primary-500">
+                          {account ? `Connected${account.email ? ` as ${account.email}` : ''}` : 'Not connected'}
+                        </p>
+                      </div>
+                      {account ? (
+                        <button
+                          onClick={() => handleDisconnect(provider)}
+                          className="text-sm text-primary-600 hover:text-red-600"
+                        >
+                          Disconnect
+                        </button>
+                      ) : (
+                        <a
+                          href={`${API_URL}/auth/oauth/${provider.id}?link=1`}
+                          className="text-sm text-gold-700 font-medium hover:underline"
+                        >
+                          Connect
+                        </a>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+
+          {/* Export & Deletion */}
+          <PrivacySettings hasPassword={hasPassword} />
+
+          {/* Sessions */}
+          <section className="bg-white border border-primary-200 p-6 md:p-8">
+            <div className="flex items-start justify-between gap-4 mb-2">
+              <h2 className="font-display text-2xl">Signed-in Devices</h2>
+              {otherSessions.length > 0 && (
+                <button
+                  onClick={handleRevokeOthers}
+                  disabled={revoking !== null}
+                  className="text-sm text-red-600 hover:underline disabled:opacity-50"
+                >
+                  Sign out all other devices
+                </button>
+              )}
+            </div>
+            <p className="text-primary-500 text-sm mb-6">
+              If you don't recognise a device, sign it out and change your password.
+            </p>
+
+            {isLoadingSessions ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin w-6 h-6 border-2 border-gold-500 border-t-transparent rounded-full" />
+              </div>
+            ) : (
+              <ul className="divide-y divide-primary-100">
+                {sessions.map((session) => {
+                  const Icon = MOBILE_DEVICES.some((d) => session.device.includes(d)) ? Smartphone : Monitor;
+                  return (
+                    <li key={session.id} className="flex items-center gap-4 py-4">
+                      <Icon className="w-8 h-8 text-primary-400 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium flex items-center gap-2">
+                          {session.device}
+                          {session.current && (
+                            <span className="inline-flex items-center gap-1 text-xs text-green-700 bg-green-50 px-2 py-0.5">
+                              <ShieldCheck className="w-3 h-3" />
+                              This device
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-sm text-primary-500">
+                          {session.ipAddress && <>{session.ipAddress} · </>}
+                          {session.current ? 'Active now' : formatLastUsed(session.lastUsedAt)}
+                          {' · '}Signed in {formatDate(session.signedInAt)}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleRevoke(session)}
+                        disabled={revoking !== null}
+                        className="text-sm text-primary-600 hover:text-red-600 disabled:opacity-50"
+                      >
+                        {revoking === session.id ? 'Signing out...' : 'Sign out'}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -67,7 +67,7 @@ export default function RegisterPage() {
         lastName: data.lastName,
         phone: data.phone,
       });
-      toast.success('Account created successfully!');
+      toast.success('Account created! Check your email to verify your address.');
       router.push('/');
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Registration failed');
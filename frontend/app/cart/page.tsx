@@ -18,22 +18,29 @@ import toast from "react-hot-toast";
 import { useCartStore } from "@/stores/cartStore";
 
 export default function CartPage() {
-  const { items, subtotal, itemCount, updateQuantity, removeItem, clearCart } =
-    useCartStore();
+  const {
+    items,
+    subtotal,
+    itemCount,
+    notices,
+    fetchCart,
+    updateQuantity,
+    removeItem,
+    clearCart,
+    dismissNotices,
+  } = useCartStore();
 
   useEffect(() => {
-    // Cart is loaded from store on component mount
-  }, []);
-  type Item = {
-    price: number;
-    compareAtPrice?: number;
-  };
+    // Pick up price and stock changes since the cart was last loaded
+    fetchCart().catch(() => {});
+  }, [fetchCart]);
+
   const handleUpdateQuantity = async (itemId: string, newQuantity: number) => {
     if (newQuantity < 1) return;
     try {
       await updateQuantity(itemId, newQuantity);
-    } catch (error) {
-      toast.error("Failed to update quantity");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update quantity");
     }
   };
 
@@ -41,13 +48,22 @@ export default function CartPage() {
     try {
       await removeItem(itemId);
       toast.success("Item removed from cart");
-    } catch (error) {
-      toast.error("Failed to remove item");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to remove item");
+    }
+  };
+
+  const handleClearCart = async () => {
+    try {
+      await clearCart();
+      toast.success("Cart cleared");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to clear cart");
     }
   };
 
-  const shippingCost = subtotal > 200 ? 0 : 25;
-  const total = subtotal + shippingCost;
+  // Shipping depends on the address, so it is priced at checkout
+  const total = subtotal;
 
   if (items.length === 0) {
     return (
@@ -95,13 +111,31 @@ export default function CartPage() {
           <span className="text-primary-500">{itemCount} items</span>
         </div>
 
+        {/* Changes made to the cart since it was last seen */}
+        {notices.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 p-4 mb-6 flex gap-3">
+            <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+            <ul className="flex-1 text-sm text-amber-800 space-y-1">
+              {notices.map((notice) => (
+                <li key={notice}>{notice}</li>
+              ))}
+            </ul>
+            <button
+              onClick={dismissNotices}
+              className="text-sm text-amber-700 hover:text-amber-900"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Cart Items */}
           <div className="lg:col-span-2 space-y-4">
             <AnimatePresence mode="popLayout">
               {items.map((item) => (
                 <motion.div
-                  key={item.productId}
+                  key={item.id}
                   layout
                   initial={{ opacity: 0, x: -20 }}
                   animate={{ opacity: 1, x: 0 }}
@@ -146,11 +180,7 @@ export default function CartPage() {
                           ₪{item.price.toFixed(2)}
                         </span>
 
-                        {typeof item === "object" &&
-                          item !== null &&
-                          "compareAtPrice" in item &&
-                          typeof item.compareAtPrice === "number" &&
-                          typeof item.price === "number" &&
+                        {item.compareAtPrice !== undefined &&
                           item.compareAtPrice > item.price && (
                             <span className="text-sm text-primary-400 line-through">
                               ₪{item.compareAtPrice.toFixed(2)}
@@ -159,11 +189,19 @@ export default function CartPage() {
                       </div>
 
                       {/* Stock Warning */}
-                      {"inStock" in item && !item.inStock && (
+                      {!item.inStock ? (
                         <div className="flex items-center gap-1 text-red-500 text-sm mt-2">
                           <AlertCircle className="w-4 h-4" />
                           Out of stock
                         </div>
+                      ) : (
+                        item.availableQuantity !== undefined &&
+                        item.quantity > item.availableQuantity && (
+                          <div className="flex items-center gap-1 text-red-500 text-sm mt-2">
+                            <AlertCircle className="w-4 h-4" />
+                            Only {item.availableQuantity} left in stock
+                          </div>
+                        )
                       )}
 
                       {/* Mobile Actions */}
@@ -173,7 +211,7 @@ export default function CartPage() {
                           <button
                             onClick={() =>
                               handleUpdateQuantity(
-                                item.productId,
+                                item.id,
                                 item.quantity - 1
                               )
                             }
@@ -188,10 +226,14 @@ export default function CartPage() {
                           <button
                             onClick={() =>
                               handleUpdateQuantity(
-                                item.productId,
+                                item.id,
                                 item.quantity + 1
                               )
                             }
+                            disabled={
+                              item.availableQuantity !== undefined &&
+                              item.quantity >= item.availableQuantity
+                            }
                             className="p-2 hover:bg-primary-100 transition-colors"
                           >
                             <Plus className="w-3 h-3" />
@@ -199,7 +241,7 @@ export default function CartPage() {
                         </div>
 
                         <button
-                          onClick={() => handleRemoveItem(item.productId)}
+                          onClick={() => handleRemoveItem(item.id)}
                           className="text-red-500 hover:text-red-600 p-2"
                         >
                           <Trash2 className="w-4 h-4" />
@@ -210,7 +252,7 @@ export default function CartPage() {
                     {/* Desktop Actions */}
                     <div className="hidden md:flex flex-col items-end justify-between">
                       <button
-                        onClick={() => handleRemoveItem(item.productId)}
+                        onClick={() => handleRemoveItem(item.id)}
                         className="text-primary-400 hover:text-red-500 p-1 transition-colors"
                       >
                         <Trash2 className="w-5 h-5" />
@@ -222,7 +264,7 @@ export default function CartPage() {
                           <button
                             onClick={() =>
                               handleUpdateQuantity(
-                                item.productId,
+                                item.id,
                                 item.quantity - 1
                               )
                             }
@@ -237,10 +279,14 @@ export default function CartPage() {
                           <button
                             onClick={() =>
                               handleUpdateQuantity(
-                                item.productId,
+                                item.id,
                                 item.quantity + 1
                               )
                             }
+                            disabled={
+                              item.availableQuantity !== undefined &&
+                              item.quantity >= item.availableQuantity
+                            }
                             className="p-2 hover:bg-primary-100 transition-colors"
                           >
                             <Plus className="w-4 h-4" />
@@ -269,10 +315,7 @@ export default function CartPage() {
               </Link>
 
               <button
-                onClick={() => {
-                  clearCart();
-                  toast.success("Cart cleared");
-                }}
+                onClick={handleClearCart}
                 className="text-sm text-red-500 hover:text-red-600"
               >
                 Clear Cart
@@ -311,19 +354,10 @@ export default function CartPage() {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-primary-600">Shipping</span>
-                  <span className="font-medium">
-                    {shippingCost === 0 ? (
-                      <span className="text-green-600">Free</span>
-                    ) : (
-                      `₪${shippingCost.toFixed(2)}`
-                    )}
+                  <span className="text-primary-500">
+                    Calculated at checkout
                   </span>
                 </div>
-                {shippingCost > 0 && (
-                  <p className="text-xs text-primary-500">
-                    Free shipping on orders over ₪200
-                  </p>
-                )}
                 <div className="flex justify-between text-lg font-bold border-t border-primary-200 pt-3 mt-3">
                   <span>Total</span>
                   <span>₪{total.toFixed(2)}</span>
@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useRef, useState, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { XCircle, ArrowRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api';
+import { useCartStore, RECOVERY_DISCOUNT_KEY } from '@/stores/cartStore';
+
+function RecoverContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [error, setError] = useState<string | null>(null);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Restoring twice would be harmless but shows two toasts in dev mode
+    if (started.current) return;
+    started.current = true;
+
+    const restore = async () => {
+      if (!token) {
+        setError('This cart link is incomplete.');
+        return;
+      }
+
+      try {
+        const res = await api.post('/cart/recover', { token });
+        await useCartStore.getState().fetchCart();
+
+        if (res.data.discountCode) {
+          sessionStorage.setItem(RECOVERY_DISCOUNT_KEY, res.data.discountCode);
+          toast.success(`Your cart is back! Use code ${res.data.discountCode} at checkout.`);
+        } else {
+          toast.success('Your cart is back!');
+        }
+        router.replace('/cart');
+      } catch (err: any) {
+        setError(err.response?.data?.error || 'We could not restore your cart.');
+      }
+    };
+
+    restore();
+  }, [token, router]);
+
+  if (!error) {
+    return (
+      <div className="min-h-screen bg-luxury-pearl flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-gold-500 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-luxury-pearl flex items-center justify-center py-16 px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-lg w-full bg-white border border-primary-200 p-8 md:p-12 text-center"
+      >
+        <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-red-100 flex items-center justify-center">
+          <XCircle className="w-10 h-10 text-red-500" />
+        </div>
+
+        <h1 className="font-display text-3xl mb-4">Cart Link Expired</h1>
+        <p className="text-primary-600 mb-8">{error}</p>
+
+        <Link
+          href="/products"
+          className="btn-primary inline-flex items-center justify-center gap-2"
+        >
+          Continue Shopping
+          <ArrowRight className="w-4 h-4" />
+        </Link>
+      </motion.div>
+    </div>
+  );
+}
+
+export default function CartRecoverPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-luxury-pearl flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-gold-500 border-t-transparent rounded-full" />
+      </div>
+    }>
+      <RecoverContent />
+    </Suspense>
+  );
+}
@@ -19,9 +19,10 @@ import {
   Mail,
   ArrowRight,
   Tag,
+  AlertCircle,
 } from "lucide-react";
 import toast from "react-hot-toast";
-import { useCartStore } from "@/stores/cartStore";
+import { useCartStore, RECOVERY_DISCOUNT_KEY } from "@/stores/cartStore";
 import { useAuthStore } from "@/stores/authStore";
 import { api } from "@/lib/api";
 
@@ -40,9 +41,19 @@ const checkoutSchema = z.object({
 
 type CheckoutFormData = z.infer<typeof checkoutSchema>;
 
+interface ShippingOption {
+  methodId: string;
+  name: string;
+  description: string | null;
+  minDays: number | null;
+  maxDays: number | null;
+  isPickup: boolean;
+  price: number;
+}
+
 export default function CheckoutPage() {
   const router = useRouter();
-  const { items, subtotal, itemCount } = useCartStore();
+  const { items, subtotal, itemCount, notices, fetchCart } = useCartStore();
   const { user, isAuthenticated } = useAuthStore();
 
   const [isProcessing, setIsProcessing] = useState(false);
@@ -50,13 +61,18 @@ export default function CheckoutPage() {
   const [discount, setDiscount] = useState<{
     code: string;
     amount: number;
+    freeShipping: boolean;
   } | null>(null);
+  const [shippingOptions, setShippingOptions] = useState<ShippingOption[]>([]);
+  const [shippingMethodId, setShippingMethodId] = useState<string | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     setValue,
+    watch,
   } = useForm<CheckoutFormData>({
     resolver: zodResolver(checkoutSchema),
     defaultValues: {
@@ -73,7 +89,58 @@ export default function CheckoutPage() {
     }
   }, [user, setValue]);
 
-  const shippingCost = subtotal > 200 ? 0 : 25;
+  // Checkout charges the server cart, so show exactly that
+  useEffect(() => {
+    fetchCart().catch(() => {});
+  }, [fetchCart]);
+
+  // Code sent with a cart reminder email
+  useEffect(() => {
+    const recoveryCode = sessionStorage.getItem(RECOVERY_DISCOUNT_KEY);
+    if (recoveryCode) setDiscountCode(recoveryCode);
+  }, []);
+
+  const country = watch("country");
+  const city = watch("city");
+
+  // Re-quote shipping when the destination or cart changes
+  useEffect(() => {
+    if (!country || items.length === 0) return;
+
+    const timeout = setTimeout(async () => {
+      setIsQuoting(true);
+      try {
+        const res = await api.post("/shipping/quote", {
+          country,
+          city,
+          items: items.map((item) => ({
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+          })),
+        });
+        const options: ShippingOption[] = res.data.options;
+        setShippingOptions(options);
+        setShippingMethodId((current) =>
+          options.some((o) => o.methodId === current)
+            ? current
+            : options[0]?.methodId || null
+        );
+      } catch (error) {
+        setShippingOptions([]);
+        setShippingMethodId(null);
+      } finally {
+        setIsQuoting(false);
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [country, city, items]);
+
+  const selectedShipping = shippingOptions.find(
+    (o) => o.methodId === shippingMethodId
+  );
+  const shippingCost = discount?.freeShipping ? 0 : selectedShipping?.price || 0;
   const discountAmount = discount?.amount || 0;
   const total = subtotal - discountAmount + shippingCost;
 
@@ -83,13 +150,25 @@ export default function CheckoutPage() {
     try {
       const res = await api.post("/orders/validate-discount", {
         code: discountCode,
+        email: watch("email") || undefined,
+        country: country || undefined,
+        city: city || undefined,
+        shippingMethodId: shippingMethodId || undefined,
+        items: items.map((item) => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+        })),
       });
       setDiscount({
-        code: discountCode.toUpperCase(),
+        code: res.data.code,
         amount: res.data.discountAmount,
+        freeShipping: res.data.freeShipping,
       });
       toast.success(
-        `Discount applied: -₪${res.data.discountAmount.toFixed(2)}`
+        res.data.freeShipping
+          ? "Free shipping applied"
+          : `Discount applied: -₪${res.data.discountAmount.toFixed(2)}`
       );
     } catch (error: any) {
       toast.error(error.response?.data?.error || "Invalid discount code");
@@ -102,6 +181,11 @@ export default function CheckoutPage() {
       return;
     }
 
+    if (!shippingMethodId) {
+      toast.error("Please choose a shipping method");
+      return;
+    }
+
     setIsProcessing(true);
 
     try {
@@ -118,9 +202,11 @@ export default function CheckoutPage() {
           postalCode: data.postalCode,
           country: data.country,
         },
+        shippingMethodId,
         discountCode: discount?.code,
         notes: data.notes,
       });
+      sessionStorage.removeItem(RECOVERY_DISCOUNT_KEY);
 
       // Redirect to Stripe checkout
       if (response.data.checkoutUrl) {
@@ -385,43 +471,49 @@ export default function CheckoutPage() {
                 </div>
 
                 <div className="space-y-3">
-                  <label
-                    className={`block p-4 border-2 cursor-pointer transition-colors ${
-                      shippingCost === 0
-                        ? "border-gold-500 bg-gold-50"
-                        : "border-primary-200"
-                    }`}
-                  >
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-3">
-                        <input
-                          type="radio"
-                          name="shipping"
-                          defaultChecked
-                          className="w-4 h-4 text-gold-600"
-                        />
-                        <div>
-                          <p className="font-medium">Standard Delivery</p>
-                          <p className="text-sm text-primary-500">
-                            3-7 business days
-                          </p>
+                  {shippingOptions.map((option) => (
+                    <label
+                      key={option.methodId}
+                      className={`block p-4 border-2 cursor-pointer transition-colors ${
+                        option.methodId === shippingMethodId
+                          ? "border-gold-500 bg-gold-50"
+                          : "border-primary-200"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <input
+                            type="radio"
+                            name="shipping"
+                            checked={option.methodId === shippingMethodId}
+                            onChange={() => setShippingMethodId(option.methodId)}
+                            className="w-4 h-4 text-gold-600"
+                          />
+                          <div>
+                            <p className="font-medium">{option.name}</p>
+                            <p className="text-sm text-primary-500">
+                              {option.minDays != null && option.maxDays != null
+                                ? `${option.minDays}-${option.maxDays} business days`
+                                : option.description}
+                            </p>
+                          </div>
                         </div>
+                        <span className="font-medium">
+                          {option.price === 0 ? (
+                            <span className="text-green-600">Free</span>
+                          ) : (
+                            `₪${option.price.toFixed(2)}`
+                          )}
+                        </span>
                       </div>
-                      <span className="font-medium">
-                        {shippingCost === 0 ? (
-                          <span className="text-green-600">Free</span>
-                        ) : (
-                          `₪${shippingCost}`
-                        )}
-                      </span>
-                    </div>
-                  </label>
+                    </label>
+                  ))}
                 </div>
 
-                {shippingCost > 0 && (
-                  <p className="text-sm text-primary-500 mt-3">
-                    Add ₪{(200 - subtotal).toFixed(2)} more to get free
-                    shipping!
+                {!isQuoting && shippingOptions.length === 0 && (
+                  <p className="text-sm text-primary-500">
+                    We don&apos;t ship to this address yet. Please check your
+                    city and country.
                   </p>
                 )}
               </motion.div>
@@ -432,10 +524,21 @@ export default function CheckoutPage() {
               <div className="bg-white border border-primary-200 p-6 sticky top-24">
                 <h2 className="font-display text-xl mb-6">Order Summary</h2>
 
+                {notices.length > 0 && (
+                  <div className="bg-amber-50 border border-amber-200 p-3 mb-4 flex gap-2 text-sm text-amber-800">
+                    <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    <ul className="space-y-1">
+                      {notices.map((notice) => (
+                        <li key={notice}>{notice}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Items */}
                 <div className="space-y-4 max-h-64 overflow-y-auto mb-6">
                   {items.map((item) => (
-                    <div key={item.productId} className="flex gap-3">
+                    <div key={item.id} className="flex gap-3">
                       <div className="relative w-16 h-16 bg-primary-50 flex-shrink-0">
                         <Image
                           src={item.image || "https://placehold.co/100x100"}
@@ -528,7 +631,7 @@ export default function CheckoutPage() {
                 {/* Submit Button */}
                 <button
                   type="submit"
-                  disabled={isProcessing}
+                  disabled={isProcessing || isQuoting || !shippingMethodId}
                   className="btn-primary w-full mt-6 flex items-center justify-center gap-2"
                 >
                   {isProcessing ? (
@@ -6,7 +6,8 @@ import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { CheckCircle, Package, Mail, ArrowRight, Copy, Check } from 'lucide-react';
 import confetti from 'canvas-confetti';
-import { api } from '@/lib/api';
+import { api, clearCartSessionId } from '@/lib/api';
+import { useCartStore } from '@/stores/cartStore';
 
 interface Order {
   id: string;
@@ -48,6 +49,12 @@ function SuccessContent() {
       try {
         const res = await api.get(`/orders/by-session/${sessionId}`);
         setOrder(res.data.order);
+
+        // The paid cart is done with: guests start a new cart session and
+        // signed-in customers get the cart the server just emptied
+        clearCartSessionId();
+        useCartStore.getState().resetCart();
+        useCartStore.getState().fetchCart().catch(() => {});
       } catch (error) {
         console.error('Failed to fetch order:', error);
       } finally {
@@ -44,7 +44,7 @@ interface Review {
   content?: string;
   isVerified: boolean;
   createdAt: string;
-  user: { firstName: string; lastName: string };
+  user: { firstName: string; lastName: string } | null; // Null once the author deleted their account
 }
 
 interface Product {
@@ -121,8 +121,8 @@ export default function ProductPage() {
         icon: "🛒",
         style: { background: "#1a1a1a", color: "#fff" },
       });
-    } catch (error) {
-      toast.error("Failed to add to cart");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to add to cart");
     }
   };
 
@@ -500,7 +500,7 @@ export default function ProductPage() {
                   </div>
 
                   <p className="font-medium mb-1">
-                    {review.user.firstName} {review.user.lastName.charAt(0)}.
+                    {review.user ? `${review.user.firstName} ${review.user.lastName.charAt(0)}.` : 'Former customer'}
                   </p>
                   {review.title && (
                     <p className="font-medium text-lg mb-2">{review.title}</p>
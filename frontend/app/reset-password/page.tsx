@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { motion } from 'framer-motion';
+import { Lock, Eye, EyeOff, ArrowRight, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api';
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+function ResetPasswordContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(token ? null : 'This reset link is incomplete.');
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      const res = await api.post('/auth/reset-password', { token, password: data.password });
+      toast.success(res.data.message);
+      router.push('/account/login');
+    } catch (err: any) {
+      // Used or expired links can't be retried, anything else can
+      if (err.response?.status === 400 && !err.response.data?.details) {
+        setError(err.response.data.error);
+      } else {
+        toast.error(err.response?.data?.error || 'Could not reset your password');
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-luxury-pearl flex items-center justify-center py-16 px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-md w-full bg-white border border-primary-200 p-8 md:p-12"
+      >
+        <div className="text-center mb-8">
+          <Link href="/">
+            <span className="font-display text-3xl">Zamanẻ</span>
+          </Link>
+        </div>
+
+        {error ? (
+          <div className="text-center">
+            <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-red-100 flex items-center justify-center">
+              <XCircle className="w-10 h-10 text-red-500" />
+            </div>
+            <h1 className="font-display text-3xl mb-4">Link Expired</h1>
+            <p className="text-primary-600 mb-8">
+              {error} Reset links work once and expire after 1 hour.
+            </p>
+            <Link
+              href="/account/forgot-password"
+              className="btn-primary inline-flex items-center justify-center gap-2"
+            >
+              Request a New Link
+              <ArrowRight className="w-4 h-4" />
+            </Link>
+          </div>
+        ) : (
+          <>
+            <h1 className="font-display text-3xl mb-2">Choose a New Password</h1>
+            <p className="text-primary-500 mb-8">
+              You'll be signed out of all devices and can then sign in with your new password.
+            </p>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              {/* Password */}
+              <div>
+                <label className="block text-sm font-medium mb-2">New Password</label>
+                <div className="relative">
+                  <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-primary-400" />
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    {...register('password')}
+                    className={`input-field pl-12 pr-12 ${errors.password ? 'border-red-500' : ''}`}
+                    placeholder="••••••••"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-4 top-1/2 -translate-y-1/2 text-primary-400 hover:text-primary-600"
+                  >
+                    {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
+                </div>
+                {errors.password && (
+                  <p className="text-red-500 text-sm mt-1">{errors.password.message}</p>
+                )}
+              </div>
+
+              {/* Confirm Password */}
+              <div>
+                <label className="block text-sm font-medium mb-2">Confirm Password</label>
+                <div className="relative">
+                  <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-primary-400" />
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    {...register('confirmPassword')}
+                    className={`input-field pl-12 ${errors.confirmPassword ? 'border-red-500' : ''}`}
+                    placeholder="••••••••"
+                  />
+                </div>
+                {errors.confirmPassword && (
+                  <p className="text-red-500 text-sm mt-1">{errors.confirmPassword.message}</p>
+                )}
+              </div>
+
+              {/* Submit */}
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="btn-primary w-full flex items-center justify-center gap-2"
+              >
+                {isSubmitting ? (
+                  <>
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    Reset Password
+                    <ArrowRight className="w-4 h-4" />
+                  </>
+                )}
+              </button>
+            </form>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-luxury-pearl flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-gold-500 border-t-transparent rounded-full" />
+      </div>
+    }>
+      <ResetPasswordContent />
+    </Suspense>
+  );
+}
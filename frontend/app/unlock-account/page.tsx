@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useRef, useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { Unlock, XCircle, ArrowRight } from 'lucide-react';
+import { api } from '@/lib/api';
+
+function UnlockAccountContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [status, setStatus] = useState<'unlocking' | 'unlocked' | 'failed'>('unlocking');
+  const [error, setError] = useState<string | null>(null);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // The token is single-use, so the second run in dev mode would fail
+    if (started.current) return;
+    started.current = true;
+
+    const unlock = async () => {
+      if (!token) {
+        setError('This unlock link is incomplete.');
+        setStatus('failed');
+        return;
+      }
+
+      try {
+        await api.post('/auth/unlock-account', { token });
+        setStatus('unlocked');
+      } catch (err: any) {
+        setError(err.response?.data?.error || 'We could not unlock your account.');
+        setStatus('failed');
+      }
+    };
+
+    unlock();
+  }, [token]);
+
+  if (status === 'unlocking') {
+    return (
+      <div className="min-h-screen bg-luxury-pearl flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-gold-500 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-luxury-pearl flex items-center justify-center py-16 px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-lg w-full bg-white border border-primary-200 p-8 md:p-12 text-center"
+      >
+        {status === 'unlocked' ? (
+          <>
+            <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-green-100 flex items-center justify-center">
+              <Unlock className="w-10 h-10 text-green-600" />
+            </div>
+
+            <h1 className="font-display text-3xl mb-4">Account Unlocked</h1>
+            <p className="text-primary-600 mb-8">
+              You can sign in again. If you've forgotten your password, reset it instead of guessing.
+            </p>
+
+            <Link href="/account/login" className="btn-primary inline-flex items-center justify-center gap-2">
+              Sign In
+              <ArrowRight className="w-4 h-4" />
+            </Link>
+          </>
+        ) : (
+          <>
+            <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-red-100 flex items-center justify-center">
+              <XCircle className="w-10 h-10 text-red-500" />
+            </div>
+
+            <h1 className="font-display text-3xl mb-4">Link Expired</h1>
+            <p className="text-primary-600 mb-2">{error}</p>
+            <p className="text-primary-600 mb-8">
+              The lock lifts by itself after 30 minutes, or you can reset your password now.
+            </p>
+
+            <Link href="/account/forgot-password" className="btn-primary inline-flex items-center justify-center gap-2">
+              Reset Password
+              <ArrowRight className="w-4 h-4" />
+            </Link>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
+
+export default function UnlockAccountPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-luxury-pearl flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-gold-500 border-t-transparent rounded-full" />
+      </div>
+    }>
+      <UnlockAccountContent />
+    </Suspense>
+  );
+}
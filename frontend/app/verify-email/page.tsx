@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useRef, useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { CheckCircle, XCircle, ArrowRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api';
+import { useAuthStore } from '@/stores/authStore';
+
+function VerifyEmailContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const { user, isAuthenticated, updateUser, resendVerification } = useAuthStore();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // The token is single-use, so the second run in dev mode would fail
+    if (started.current) return;
+    started.current = true;
+
+    const verify = async () => {
+      if (!token) {
+        setError('This verification link is incomplete.');
+        setStatus('failed');
+        return;
+      }
+
+      try {
+        const res = await api.post('/auth/verify-email', { token });
+        setStatus('verified');
+
+        // Only update the signed-in user if the link was for their account
+        if (useAuthStore.getState().user?.id === res.data.user.id) {
+          updateUser({ emailVerified: true });
+        }
+      } catch (err: any) {
+        setError(err.response?.data?.error || 'We could not verify your email.');
+        setStatus('failed');
+      }
+    };
+
+    verify();
+  }, [token, updateUser]);
+
+  const handleResend = async () => {
+    setIsResending(true);
+    try {
+      toast.success(await resendVerification());
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Could not send the email');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  if (status === 'verifying') {
+    return (
+      <div className="min-h-screen bg-luxury-pearl flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-gold-500 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-luxury-pearl flex items-center justify-center py-16 px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-lg w-full bg-white border border-primary-200 p-8 md:p-12 text-center"
+      >
+        {status === 'verified' ? (
+          <>
+            <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-green-100 flex items-center justify-center">
+              <CheckCircle className="w-10 h-10 text-green-600" />
+            </div>
+
+            <h1 className="font-display text-3xl mb-4">Email Verified</h1>
+            <p className="text-primary-600 mb-8">
+              Thank you! Your account is all set up.
+            </p>
+
+            <Link
+              href={isAuthenticated ? '/products' : '/account/login'}
+              className="btn-primary inline-flex items-center justify-center gap-2"
+            >
+              {isAuthenticated ? 'Continue Shopping' : 'Sign In'}
+              <ArrowRight className="w-4 h-4" />
+            </Link>
+          </>
+        ) : (
+          <>
+            <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-red-100 flex items-center justify-center">
+              <XCircle className="w-10 h-10 text-red-500" />
+            </div>
+
+            <h1 className="font-display text-3xl mb-4">Link Expired</h1>
+            <p className="text-primary-600 mb-8">{error}</p>
+
+            {user && user.emailVerified === false ? (
+              <button
+                onClick={handleResend}
+                disabled={isResending}
+                className="btn-primary inline-flex items-center justify-center gap-2"
+              >
+                {isResending ? 'Sending...' : 'Send a New Link'}
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            ) : (
+              <Link
+                href={isAuthenticated ? '/products' : '/account/login?redirect=/verify-email'}
+                className="btn-primary inline-flex items-center justify-center gap-2"
+              >
+                {isAuthenticated ? 'Continue Shopping' : 'Sign In to Get a New Link'}
+                <ArrowRight className="w-4 h-4" />
+              </Link>
+            )}
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-luxury-pearl flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-gold-500 border-t-transparent rounded-full" />
+      </div>
+    }>
+      <VerifyEmailContent />
+    </Suspense>
+  );
+}
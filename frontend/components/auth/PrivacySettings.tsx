@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { api, formatDate } from '@/lib/api';
+import { useAuthStore } from '@/stores/authStore';
+
+interface Props {
+  hasPassword: boolean;
+}
+
+// Account page section for downloading your data and deleting the account.
+// Deletion happens after a grace period and can be cancelled until then.
+export default function PrivacySettings({ hasPassword }: Props) {
+  const { user, updateUser } = useAuthStore();
+  const [downloading, setDownloading] = useState<'json' | 'zip' | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!user) {
+    return null;
+  }
+
+  const handleDownload = async (format: 'json' | 'zip') => {
+    setDownloading(format);
+    try {
+      const response = await api.get('/users/me/export', { params: { format }, responseType: 'blob' });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `zamane-data.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error(error.response?.status === 429 ? 'Too many exports, please try again later' : 'Could not export your data');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleRequestDeletion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const response = await api.post('/users/me/deletion', hasPassword ? { password } : {});
+      updateUser({ deletionScheduledFor: response.data.deletionScheduledFor });
+      setIsConfirming(false);
+      setPassword('');
+      toast.success('Account deletion scheduled');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Could not schedule the deletion');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    setIsSubmitting(true);
+    try {
+      await api.delete('/users/me/deletion');
+      updateUser({ deletionScheduledFor: null });
+      toast.success('Account deletion cancelled');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Could not cancel the deletion');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="bg-white border border-primary-200 p-6 md:p-8 mb-6">
+      <h2 className="font-display text-2xl mb-2">Your Data</h2>
+      <p className="text-primary-500 text-sm mb-6">
+        Download a copy of your profile, addresses, orders, reviews and wishlist.
+      </p>
+
+      <div className="flex flex-wrap gap-4 mb-8">
+        {(['zip', 'json'] as const).map((format) => (
+          <button
+            key={format}
+            onClick={() => handleDownload(format)}
+            disabled={downloading !== null}
+            className="btn-secondary flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            {downloading === format ? 'Preparing...' : `Download ${format.toUpperCase()}`}
+          </button>
+        ))}
+      </div>
+
+      <h3 className="font-medium mb-2">Delete Account</h3>
+
+      {user.deletionScheduledFor ? (
+        <div className="border border-red-200 bg-red-50 p-4">
+          <p className="flex items-center gap-2 font-medium text-red-700 mb-1">
+            <AlertTriangle className="w-4 h-4" />
+            Your account will be deleted on {formatDate(user.deletionScheduledFor)}
+          </p>
+          <p className="text-sm text-primary-600 mb-4">
+            Until then you can keep using it and change your mind.
+          </p>
+          <button onClick={handleCancelDeletion} disabled={isSubmitting} className="btn-primary">
+            Cancel deletion
+          </button>
+        </div>
+      ) : isConfirming ? (
+        <form onSubmit={handleRequestDeletion} className="space-y-4">
+          <p className="text-sm">
+            Your account is deleted after a grace period, during which you can cancel.
+            Your orders are kept for our records without your name or contact details,
+            and your reviews stay up without your name.
+          </p>
+          {hasPassword && (
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="input-field"
+              placeholder="Password"
+            />
+          )}
+          <div className="flex gap-4">
+            <button
+              type="submit"
+              disabled={isSubmitting || (hasPassword && !password)}
+              className="btn-secondary text-red-600"
+            >
+              Delete my account
+            </button>
+            <button
+              type="button"
+              onClick={() => { setIsConfirming(false); setPassword(''); }}
+              className="text-sm text-primary-600 hover:underline"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button onClick={() => setIsConfirming(true)} className="text-sm text-red-600 hover:underline">
+          Delete my account
+        </button>
+      )}
+    </section>
+  );
+}
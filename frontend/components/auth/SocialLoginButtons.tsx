@@ -0,0 +1,73 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { api, API_URL } from '@/lib/api';
+
+interface Provider {
+  id: string;
+  name: string;
+}
+
+const ProviderIcon = ({ id }: { id: string }) => {
+  if (id === 'google') {
+    return (
+      <svg className="w-5 h-5" viewBox="0 0 24 24">
+        <path fill="currentColor" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
+        <path fill="currentColor" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
+        <path fill="currentColor" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
+        <path fill="currentColor" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
+      </svg>
+    );
+  }
+  if (id === 'apple') {
+    return (
+      <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+        <path d="M16.37 12.6c-.03-2.6 2.12-3.85 2.22-3.91-1.21-1.77-3.09-2.01-3.76-2.04-1.6-.16-3.12.94-3.93.94-.81 0-2.06-.92-3.39-.89-1.74.03-3.35 1.01-4.25 2.57-1.81 3.14-.46 7.79 1.3 10.34.86 1.25 1.89 2.65 3.23 2.6 1.3-.05 1.79-.84 3.36-.84 1.57 0 2.01.84 3.38.81 1.4-.02 2.28-1.27 3.13-2.52.99-1.45 1.4-2.85 1.42-2.92-.03-.01-2.72-1.05-2.75-4.14zM13.79 4.96c.71-.87 1.2-2.07 1.06-3.27-1.03.04-2.28.69-3.02 1.55-.66.76-1.24 1.99-1.09 3.16 1.15.09 2.33-.59 3.05-1.44z"/>
+      </svg>
+    );
+  }
+  return null;
+};
+
+// Sign-in with the providers the API has credentials for. Each button is a
+// full-page navigation to the API, which redirects on to the provider.
+export default function SocialLoginButtons({ redirect = '/' }: { redirect?: string }) {
+  const [providers, setProviders] = useState<Provider[]>([]);
+
+  useEffect(() => {
+    api.get('/auth/oauth/providers')
+      .then((res) => setProviders(res.data.providers))
+      .catch(() => setProviders([]));
+  }, []);
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {/* Divider */}
+      <div className="relative my-8">
+        <div className="absolute inset-0 flex items-center">
+          <div className="w-full border-t border-primary-200" />
+        </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="px-4 bg-white text-primary-500">Or continue with</span>
+        </div>
+      </div>
+
+      <div className={`grid gap-4 ${providers.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+        {providers.map((provider) => (
+          <a
+            key={provider.id}
+            href={`${API_URL}/auth/oauth/${provider.id}?redirect=${encodeURIComponent(redirect)}`}
+            className="btn-secondary flex items-center justify-center gap-2"
+          >
+            <ProviderIcon id={provider.id} />
+            {provider.name}
+          </a>
+        ))}
+      </div>
+    </>
+  );
+}
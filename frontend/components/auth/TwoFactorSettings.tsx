@@ -0,0 +1,252 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ShieldCheck, ShieldAlert, Copy } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Props {
+  hasPassword: boolean;
+  // Enabling signs out every other device
+  onEnabled?: () => void;
+}
+
+// Account page section for setting up, managing and turning off an
+// authenticator app. Staff accounts can't turn it off.
+export default function TwoFactorSettings({ hasPassword, onEnabled }: Props) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [mode, setMode] = useState<'idle' | 'regenerate' | 'disable'>('idle');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await api.get('/auth/2fa');
+      setStatus(response.data);
+    } catch (error) {
+      // Section stays hidden
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const reset = () => {
+    setMode('idle');
+    setCode('');
+    setPassword('');
+  };
+
+  const submit = async (action: () => Promise<void>, fallbackError: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || fallbackError);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = () =>
+    submit(async () => {
+      const response = await api.post('/auth/2fa/setup');
+      setSetup(response.data);
+      setRecoveryCodes(null);
+    }, 'Could not start setup');
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return submit(async () => {
+      const response = await api.post('/auth/2fa/enable', { code });
+      setRecoveryCodes(response.data.recoveryCodes);
+      setSetup(null);
+      reset();
+      toast.success('Two-factor authentication enabled');
+      onEnabled?.();
+      await fetchStatus();
+    }, 'Invalid verification code');
+  };
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    return submit(async () => {
+      const response = await api.post('/auth/2fa/recovery-codes', { code });
+      setRecoveryCodes(response.data.recoveryCodes);
+      reset();
+      await fetchStatus();
+    }, 'Invalid verification code');
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return submit(async () => {
+      await api.post('/auth/2fa/disable', { code, ...(hasPassword && { password }) });
+      setRecoveryCodes(null);
+      reset();
+      toast.success('Two-factor authentication disabled');
+      await fetchStatus();
+    }, 'Could not disable two-factor authentication');
+  };
+
+  const copyRecoveryCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes!.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch (error) {
+      toast.error('Could not copy, please write them down');
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="input-field tracking-widest"
+      placeholder="Code from your app"
+    />
+  );
+
+  return (
+    <section className="bg-white border border-primary-200 p-6 md:p-8 mb-6">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <h2 className="font-display text-2xl">Two-Factor Authentication</h2>
+        {status.enabled ? (
+          <span className="inline-flex items-center gap-1 text-sm text-green-700">
+            <ShieldCheck className="w-4 h-4" />
+            On
+          </span>
+        ) : (
+          <span className="inline-flex items-center gap-1 text-sm text-amber-700">
+            <ShieldAlert className="w-4 h-4" />
+            Off
+          </span>
+        )}
+      </div>
+      <p className="text-primary-500 text-sm mb-6">
+        {status.required && !status.enabled
+          ? 'Staff accounts need two-factor authentication. Set it up to use the admin panel.'
+          : 'Sign-ins ask for a code from an authenticator app as well as your password.'}
+      </p>
+
+      {/* Shown once, right after they are generated */}
+      {recoveryCodes && (
+        <div className="border border-gold-300 bg-gold-50 p-4 mb-6">
+          <p className="font-medium mb-1">Save your recovery codes</p>
+          <p className="text-sm text-primary-600 mb-4">
+            Each code signs you in once if you lose your phone. They won't be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm mb-4">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <div className="flex gap-4">
+            <button onClick={copyRecoveryCodes} className="text-sm text-gold-700 font-medium hover:underline flex items-center gap-1">
+              <Copy className="w-4 h-4" />
+              Copy
+            </button>
+            <button onClick={() => setRecoveryCodes(null)} className="text-sm text-primary-600 hover:underline">
+              I've saved them
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!status.enabled && !setup && (
+        <button onClick={handleStartSetup} disabled={isSubmitting} className="btn-primary">
+          Set up two-factor authentication
+        </button>
+      )}
+
+      {!status.enabled && setup && (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <p className="text-sm">
+            Add this key to your authenticator app (Google Authenticator, 1Password, Authy...)
+            {' '}or <a href={setup.otpauthUrl} className="text-gold-700 hover:underline">open it on this device</a>:
+          </p>
+          <p className="font-mono text-sm bg-primary-50 p-3 break-all select-all">
+            {setup.secret.match(/.{1,4}/g)?.join(' ')}
+          </p>
+          <div>
+            <label className="block text-sm font-medium mb-2">Then enter the code it shows</label>
+            {codeInput}
+          </div>
+          <div className="flex gap-4">
+            <button type="submit" disabled={isSubmitting || !code.trim()} className="btn-primary">
+              Turn on
+            </button>
+            <button type="button" onClick={() => { setSetup(null); reset(); }} className="text-sm text-primary-600 hover:underline">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status.enabled && mode === 'idle' && (
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+          <p className="text-sm text-primary-600">
+            {status.recoveryCodesRemaining} recovery codes left
+          </p>
+          <button onClick={() => setMode('regenerate')} className="text-sm text-gold-700 font-medium hover:underline">
+            New recovery codes
+          </button>
+          {!status.required && (
+            <button onClick={() => setMode('disable')} className="text-sm text-red-600 hover:underline">
+              Turn off
+            </button>
+          )}
+        </div>
+      )}
+
+      {status.enabled && mode !== 'idle' && (
+        <form onSubmit={mode === 'disable' ? handleDisable : handleRegenerate} className="space-y-4">
+          <p className="text-sm">
+            {mode === 'disable'
+              ? 'Confirm with a code from your app to turn off two-factor authentication.'
+              : 'Confirm with a code from your app. Your old recovery codes will stop working.'}
+          </p>
+          {mode === 'disable' && hasPassword && (
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="input-field"
+              placeholder="Password"
+            />
+          )}
+          {codeInput}
+          <div className="flex gap-4">
+            <button
+              type="submit"
+              disabled={isSubmitting || !code.trim()}
+              className={mode === 'disable' ? 'btn-secondary text-red-600' : 'btn-primary'}
+            >
+              {mode === 'disable' ? 'Turn off' : 'Generate codes'}
+            </button>
+            <button type="button" onClick={reset} className="text-sm text-primary-600 hover:underline">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
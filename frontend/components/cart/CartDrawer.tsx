@@ -5,6 +5,7 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Plus, Minus, ShoppingBag, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { useCartStore } from '@/stores/cartStore';
 
 interface CartDrawerProps {
@@ -15,6 +16,14 @@ interface CartDrawerProps {
 export default function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
   const { items, itemCount, subtotal, removeItem, updateQuantity } = useCartStore();
 
+  const handleUpdateQuantity = (itemId: string, quantity: number) => {
+    updateQuantity(itemId, quantity).catch((error) => toast.error(error.message));
+  };
+
+  const handleRemoveItem = (itemId: string) => {
+    removeItem(itemId).catch((error) => toast.error(error.message));
+  };
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -68,7 +77,7 @@ export default function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                 <div className="p-4 space-y-4">
                   {items.map((item) => (
                     <div
-                      key={`${item.productId}-${item.variantId || ''}`}
+                      key={item.id}
                       className="flex gap-4 pb-4 border-b border-primary-100 last:border-0"
                     >
                       {/* Image */}
@@ -108,11 +117,7 @@ export default function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                           <div className="flex items-center border border-primary-200">
                             <button
                               onClick={() =>
-                                updateQuantity(
-                                  item.productId,
-                                  item.quantity - 1,
-                                  item.variantId
-                                )
+                                handleUpdateQuantity(item.id, item.quantity - 1)
                               }
                               disabled={item.quantity <= 1}
                               className="p-1.5 hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed"
@@ -124,20 +129,20 @@ export default function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                             </span>
                             <button
                               onClick={() =>
-                                updateQuantity(
-                                  item.productId,
-                                  item.quantity + 1,
-                                  item.variantId
-                                )
+                                handleUpdateQuantity(item.id, item.quantity + 1)
                               }
-                              className="p-1.5 hover:bg-primary-50"
+                              disabled={
+                                item.availableQuantity !== undefined &&
+                                item.quantity >= item.availableQuantity
+                              }
+                              className="p-1.5 hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                               <Plus className="w-3 h-3" />
                             </button>
                           </div>
 
                           <button
-                            onClick={() => removeItem(item.productId, item.variantId)}
+                            onClick={() => handleRemoveItem(item.id)}
                             className="p-1.5 text-red-500 hover:bg-red-50 rounded transition-colors"
                           >
                             <Trash2 className="w-4 h-4" />
@@ -7,6 +7,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Search, ShoppingBag, User, Menu, X, Heart, ChevronDown 
 } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { useCartStore } from '@/stores/cartStore';
 import { useAuthStore } from '@/stores/authStore';
 import CartDrawer from '@/components/cart/CartDrawer';
@@ -38,7 +39,8 @@ export default function Header() {
   const [activeDropdown, setActiveDropdown] = useState<string | null>(null);
   
   const { itemCount } = useCartStore();
-  const { user, isAuthenticated } = useAuthStore();
+  const { user, isAuthenticated, resendVerification } = useAuthStore();
+  const [isResending, setIsResending] = useState(false);
 
   useEffect(() => {
     const handleScroll = () => {
@@ -53,6 +55,17 @@ export default function Header() {
     setIsMobileMenuOpen(false);
   }, [pathname]);
 
+  const handleResendVerification = async () => {
+    setIsResending(true);
+    try {
+      toast.success(await resendVerification());
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Could not send the email');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
   const isHomePage = pathname === '/';
   const headerBg = isScrolled || !isHomePage 
     ? 'bg-white shadow-sm' 
@@ -71,6 +84,22 @@ export default function Header() {
           <p>Free shipping on orders over ₪200 | Use code <span className="text-gold-400">WELCOME10</span> for 10% off</p>
         </div>
 
+        {/* Email Verification Reminder */}
+        {user && user.emailVerified === false && pathname !== '/verify-email' && (
+          <div className="bg-gold-50 text-primary-800 text-center py-2 text-sm border-b border-gold-200">
+            <p>
+              Please verify your email to leave reviews and view your orders.{' '}
+              <button
+                onClick={handleResendVerification}
+                disabled={isResending}
+                className="text-gold-700 font-medium hover:underline disabled:opacity-50"
+              >
+                {isResending ? 'Sending...' : 'Resend email'}
+              </button>
+            </p>
+          </div>
+        )}
+
         <div className="container-custom">
           <nav className="flex items-center justify-between h-16 md:h-20">
             {/* Mobile Menu Button */}
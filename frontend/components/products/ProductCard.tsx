@@ -32,18 +32,22 @@ export default function ProductCard({ product }: ProductCardProps) {
     ? Math.round((1 - product.price / product.compareAtPrice) * 100)
     : 0;
 
-  const handleAddToCart = (e: React.MouseEvent) => {
+  const handleAddToCart = async (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    addItem({
-      productId: product.id,
-      name: product.name,
-      price: product.price,
-      image: product.images[0]?.url || "",
-      slug: product.slug,
-      quantity: 1,
-    });
-    toast.success("Added to cart");
+    try {
+      await addItem({
+        productId: product.id,
+        name: product.name,
+        price: product.price,
+        image: product.images[0]?.url || "",
+        slug: product.slug,
+        quantity: 1,
+      });
+      toast.success("Added to cart");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to add to cart");
+    }
   };
 
   const handleWishlist = (e: React.MouseEvent) => {
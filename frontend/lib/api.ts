@@ -1,7 +1,7 @@
 import axios from 'axios';
 import Cookies from 'js-cookie';
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
 
 export const api = axios.create({
   baseURL: API_URL,
@@ -11,20 +11,58 @@ export const api = axios.create({
   withCredentials: true,
 });
 
-// Request interceptor to add auth token
+// Guest carts are keyed by a session ID the browser keeps. The API's own
+// cookie is httpOnly and scoped to its domain, so the ID is generated here
+// and sent as a header instead.
+export const getCartSessionId = () => {
+  let sessionId = Cookies.get('cart_session');
+  if (!sessionId) {
+    sessionId = crypto.randomUUID();
+    Cookies.set('cart_session', sessionId, { expires: 30 });
+  }
+  return sessionId;
+};
+
+export const clearCartSessionId = () => {
+  Cookies.remove('cart_session');
+};
+
+// Auth tokens live in httpOnly cookies set by the API. Requests that change
+// something also need the CSRF token, which the API returns on login,
+// refresh and /auth/me. It is kept in localStorage so every tab shares it.
+const CSRF_STORAGE_KEY = 'zamane-csrf';
+const SAFE_METHODS = ['get', 'head', 'options'];
+
+export const setCsrfToken = (token: string | null | undefined) => {
+  if (typeof window === 'undefined') return;
+  if (token) {
+    localStorage.setItem(CSRF_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(CSRF_STORAGE_KEY);
+  }
+};
+
+// Called when the session can't be refreshed, so the auth store can sign
+// the user out. Registered by the store to avoid a circular import.
+let onSessionExpired: (() => void) | null = null;
+
+export const setSessionExpiredHandler = (handler: () => void) => {
+  onSessionExpired = handler;
+};
+
+// Request interceptor to add the CSRF and cart session headers
 api.interceptors.request.use(
   (config) => {
-    const token = Cookies.get('accessToken');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    
-    // Add cart session for guest users
-    const cartSession = Cookies.get('cart_session');
-    if (cartSession) {
-      config.headers['x-cart-session'] = cartSession;
+    if (typeof window !== 'undefined') {
+      const csrfToken = localStorage.getItem(CSRF_STORAGE_KEY);
+      if (csrfToken && !SAFE_METHODS.includes((config.method || 'get').toLowerCase())) {
+        config.headers['X-CSRF-Token'] = csrfToken;
+      }
+
+      // Add cart session for guest users
+      config.headers['x-cart-session'] = getCartSessionId();
     }
-    
+
     return config;
   },
   (error) => {
@@ -32,44 +70,51 @@ api.interceptors.request.use(
   }
 );
 
+// Requests failing together share one refresh. Refresh tokens are single
+// use, so a second refresh with the same cookie would sign the user out.
+let refreshPromise: Promise<void> | null = null;
+
+export const refreshSession = () => {
+  if (!refreshPromise) {
+    refreshPromise = axios
+      .post(`${API_URL}/auth/refresh`, null, { withCredentials: true })
+      .then((response) => {
+        setCsrfToken(response.data.csrfToken);
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
 // Response interceptor to handle token refresh
 api.interceptors.response.use(
   (response) => response,
   async (error) => {
     const originalRequest = error.config;
+    const isAuthRequest = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout']
+      .some((path) => originalRequest?.url?.startsWith(path));
 
     // If 401 and not already retrying
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    if (error.response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthRequest) {
       originalRequest._retry = true;
 
-      const refreshToken = Cookies.get('refreshToken');
-      if (refreshToken) {
-        try {
-          const response = await axios.post(`${API_URL}/auth/refresh`, {
-            refreshToken,
-          });
-
-          const { accessToken, refreshToken: newRefreshToken } = response.data;
-
-          Cookies.set('accessToken', accessToken, { expires: 1 });
-          Cookies.set('refreshToken', newRefreshToken, { expires: 7 });
-
-          api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`;
-          originalRequest.headers.Authorization = `Bearer ${accessToken}`;
-
-          return api(originalRequest);
-        } catch (refreshError) {
-          // Refresh failed, clear tokens
-          Cookies.remove('accessToken');
-          Cookies.remove('refreshToken');
-          delete api.defaults.headers.common['Authorization'];
-          
-          // Redirect to login if on protected page
-          if (typeof window !== 'undefined') {
-            const protectedPaths = ['/account', '/checkout', '/orders'];
-            if (protectedPaths.some(path => window.location.pathname.startsWith(path))) {
-              window.location.href = '/login';
-            }
+      try {
+        await refreshSession();
+        return api(originalRequest);
+      } catch (refreshError) {
+        // Refresh failed, the session is gone
+        setCsrfToken(null);
+        onSessionExpired?.();
+
+        // Redirect to login if on protected page
+        if (typeof window !== 'undefined') {
+          const protectedPaths = ['/account', '/checkout', '/orders'];
+          const publicPaths = ['/account/login', '/account/register', '/account/forgot-password'];
+          const path = window.location.pathname;
+          if (protectedPaths.some(p => path.startsWith(p)) && !publicPaths.includes(path)) {
+            window.location.href = `/account/login?redirect=${encodeURIComponent(path)}`;
           }
         }
       }
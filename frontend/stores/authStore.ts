@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import Cookies from 'js-cookie';
-import { api } from '@/lib/api';
+import { api, clearCartSessionId, refreshSession, setCsrfToken, setSessionExpiredHandler } from '@/lib/api';
+import { useCartStore } from '@/stores/cartStore';
 
 interface User {
   id: string;
@@ -10,18 +10,22 @@ interface User {
   lastName: string;
   phone?: string;
   avatar?: string;
-  role: 'CUSTOMER' | 'ADMIN' | 'SUPER_ADMIN';
+  role: 'CUSTOMER' | 'FULFILLER' | 'CATALOG_EDITOR' | 'SUPPORT_AGENT' | 'ANALYST' | 'ADMIN' | 'SUPER_ADMIN';
+  permissions?: string[]; // e.g. 'orders:refund', from /auth/me
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
+  deletionScheduledFor?: string | null; // Set while an account deletion is pending
 }
 
 interface AuthState {
   user: User | null;
-  accessToken: string | null;
-  refreshToken: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   
   // Actions
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves to true when the account needs a two-factor code next
+  login: (email: string, password: string) => Promise<boolean>;
+  verifyTwoFactor: (code: string) => Promise<{ recoveryCodesRemaining?: number }>;
   register: (data: {
     email: string;
     password: string;
@@ -33,14 +37,13 @@ interface AuthState {
   refreshAuth: () => Promise<void>;
   updateUser: (data: Partial<User>) => void;
   fetchUser: () => Promise<void>;
+  resendVerification: () => Promise<string>;
 }
 
 export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
       user: null,
-      accessToken: null,
-      refreshToken: null,
       isAuthenticated: false,
       isLoading: false,
 
@@ -48,22 +51,49 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true });
         try {
           const response = await api.post('/auth/login', { email, password });
-          const { user, accessToken, refreshToken } = response.data;
 
-          // Store tokens
-          Cookies.set('accessToken', accessToken, { expires: 1 });
-          Cookies.set('refreshToken', refreshToken, { expires: 7 });
+          // No session yet, see verifyTwoFactor
+          if (response.data.twoFactorRequired) {
+            set({ isLoading: false });
+            return true;
+          }
 
-          // Update API default headers
-          api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`;
+          const { user, csrfToken } = response.data;
+
+          // The API set the session cookies; keep the CSRF token for requests
+          setCsrfToken(csrfToken);
 
           set({
             user,
-            accessToken,
-            refreshToken,
             isAuthenticated: true,
             isLoading: false,
           });
+
+          // Bring along anything added to the cart as a guest
+          await useCartStore.getState().mergeGuestCart().catch(() => {});
+          return false;
+        } catch (error) {
+          set({ isLoading: false });
+          throw error;
+        }
+      },
+
+      verifyTwoFactor: async (code) => {
+        set({ isLoading: true });
+        try {
+          const response = await api.post('/auth/login/2fa', { code });
+          const { user, csrfToken, recoveryCodesRemaining } = response.data;
+
+          setCsrfToken(csrfToken);
+
+          set({
+            user,
+            isAuthenticated: true,
+            isLoading: false,
+          });
+
+          await useCartStore.getState().mergeGuestCart().catch(() => {});
+          return { recoveryCodesRemaining };
         } catch (error) {
           set({ isLoading: false });
           throw error;
@@ -74,22 +104,19 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true });
         try {
           const response = await api.post('/auth/register', data);
-          const { user, accessToken, refreshToken } = response.data;
+          const { user, csrfToken } = response.data;
 
-          // Store tokens
-          Cookies.set('accessToken', accessToken, { expires: 1 });
-          Cookies.set('refreshToken', refreshToken, { expires: 7 });
-
-          // Update API default headers
-          api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`;
+          // The API set the session cookies; keep the CSRF token for requests
+          setCsrfToken(csrfToken);
 
           set({
             user,
-            accessToken,
-            refreshToken,
             isAuthenticated: true,
             isLoading: false,
           });
+
+          // Bring along anything added to the cart as a guest
+          await useCartStore.getState().mergeGuestCart().catch(() => {});
         } catch (error) {
           set({ isLoading: false });
           throw error;
@@ -103,36 +130,22 @@ export const useAuthStore = create<AuthState>()(
           // Ignore errors on logout
         }
 
-        // Clear tokens
-        Cookies.remove('accessToken');
-        Cookies.remove('refreshToken');
-        delete api.defaults.headers.common['Authorization'];
+        // The API cleared the cookies
+        setCsrfToken(null);
 
         set({
           user: null,
-          accessToken: null,
-          refreshToken: null,
           isAuthenticated: false,
         });
+
+        // The account's cart stays on the server; start a fresh guest cart
+        clearCartSessionId();
+        useCartStore.getState().resetCart();
       },
 
       refreshAuth: async () => {
-        const { refreshToken } = get();
-        if (!refreshToken) return;
-
         try {
-          const response = await api.post('/auth/refresh', { refreshToken });
-          const { accessToken: newAccessToken, refreshToken: newRefreshToken } = response.data;
-
-          Cookies.set('accessToken', newAccessToken, { expires: 1 });
-          Cookies.set('refreshToken', newRefreshToken, { expires: 7 });
-
-          api.defaults.headers.common['Authorization'] = `Bearer ${newAccessToken}`;
-
-          set({
-            accessToken: newAccessToken,
-            refreshToken: newRefreshToken,
-          });
+          await refreshSession();
         } catch (error) {
           // If refresh fails, logout
           get().logout();
@@ -148,17 +161,28 @@ export const useAuthStore = create<AuthState>()(
       fetchUser: async () => {
         try {
           const response = await api.get('/auth/me');
-          set({ user: response.data.user });
-        } catch (error) {
-          // If fetching user fails, might need to logout
+          setCsrfToken(response.data.csrfToken);
+          set({ user: response.data.user, isAuthenticated: true });
+        } catch (error: any) {
+          // Signed out elsewhere or the session expired
+          if (error.response?.status === 401) {
+            set({ user: null, isAuthenticated: false });
+          }
         }
       },
+
+      resendVerification: async () => {
+        const response = await api.post('/auth/resend-verification');
+        return response.data.message;
+      },
     }),
     {
       name: 'zamane-auth',
+      // Version 0 kept the tokens here. They no longer work, so those users
+      // start signed out.
+      version: 1,
+      migrate: () => ({ isAuthenticated: false }) as AuthState,
       partialize: (state) => ({
-        accessToken: state.accessToken,
-        refreshToken: state.refreshToken,
         isAuthenticated: state.isAuthenticated,
       }),
     }
@@ -167,9 +191,12 @@ export const useAuthStore = create<AuthState>()(
 
 // Initialize auth on app load
 if (typeof window !== 'undefined') {
-  const accessToken = Cookies.get('accessToken');
-  if (accessToken) {
-    api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`;
+  setSessionExpiredHandler(() => {
+    useAuthStore.setState({ user: null, isAuthenticated: false });
+  });
+
+  // The session cookies aren't readable here, so ask the API
+  if (useAuthStore.getState().isAuthenticated) {
     useAuthStore.getState().fetchUser();
   }
 }
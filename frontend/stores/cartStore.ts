@@ -1,104 +1,294 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { api, getCartSessionId } from '@/lib/api';
 
 export interface CartItem {
+  id: string; // Server cart item ID, temporary until the server confirms an add
   productId: string;
   variantId?: string;
   name: string;
   price: number;
+  compareAtPrice?: number;
   image: string;
   slug: string;
   quantity: number;
+  inStock: boolean;
+  availableQuantity?: number; // Undefined when the product allows backorders
   variant?: {
     name: string;
     options?: Record<string, string>;
   };
 }
 
+// An item from a cart saved before carts were kept on the server (persisted
+// version 0), still to be added to the server cart
+type LegacyCartItem = Pick<CartItem, 'productId' | 'variantId' | 'name' | 'quantity'>;
+
+interface ServerCartItem {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  price: number;
+  product: {
+    name: string;
+    slug: string;
+    compareAtPrice: string | number | null;
+    image?: string;
+    isActive: boolean;
+    inStock: boolean;
+    availableQuantity: number;
+    allowBackorder: boolean;
+  };
+  variant: {
+    name: string;
+    options?: Record<string, string>;
+  } | null;
+}
+
 interface CartState {
   items: CartItem[];
   itemCount: number;
   subtotal: number;
-  
+  isLoading: boolean;
+  // Changes the server made to the cart the customer should know about
+  // (price changes, items that sold out or were removed)
+  notices: string[];
+  legacyItems: LegacyCartItem[];
+
   // Actions
-  addItem: (item: Omit<CartItem, 'quantity'> & { quantity?: number }) => void;
-  removeItem: (productId: string, variantId?: string) => void;
-  updateQuantity: (productId: string, quantity: number, variantId?: string) => void;
-  clearCart: () => void;
-  
+  fetchCart: () => Promise<void>;
+  restoreLegacyCart: () => Promise<void>;
+  addItem: (item: Omit<CartItem, 'id' | 'quantity' | 'inStock'> & { quantity?: number }) => Promise<void>;
+  removeItem: (itemId: string) => Promise<void>;
+  updateQuantity: (itemId: string, quantity: number) => Promise<void>;
+  clearCart: () => Promise<void>;
+  mergeGuestCart: () => Promise<void>;
+  resetCart: () => void;
+  dismissNotices: () => void;
+
   // Computed
   getItem: (productId: string, variantId?: string) => CartItem | undefined;
 }
 
+const getTotals = (items: CartItem[]) => ({
+  itemCount: items.reduce((sum, i) => sum + i.quantity, 0),
+  subtotal: items.reduce((sum, i) => sum + i.price * i.quantity, 0),
+});
+
+const toCartItem = (item: ServerCartItem): CartItem => ({
+  id: item.id,
+  productId: item.productId,
+  variantId: item.variantId || undefined,
+  name: item.product.name,
+  price: Number(item.price),
+  compareAtPrice: item.product.compareAtPrice != null ? Number(item.product.compareAtPrice) : undefined,
+  image: item.product.image || '',
+  slug: item.product.slug,
+  quantity: item.quantity,
+  inStock: item.product.isActive && item.product.inStock,
+  availableQuantity: item.product.allowBackorder ? undefined : item.product.availableQuantity,
+  variant: item.variant ? { name: item.variant.name, options: item.variant.options } : undefined,
+});
+
+// Compares what the customer last saw with what the server returned
+const getNotices = (previous: CartItem[], next: CartItem[]) => {
+  const notices: string[] = [];
+
+  for (const item of previous) {
+    if (item.id.startsWith('temp-')) continue;
+
+    const current = next.find((i) => i.id === item.id);
+    if (!current) {
+      notices.push(`${item.name} is no longer available and was removed from your cart`);
+    } else if (current.price !== item.price) {
+      notices.push(`The price of ${item.name} changed to ₪${current.price.toFixed(2)}`);
+    }
+  }
+
+  for (const item of next) {
+    if (!item.inStock) {
+      notices.push(`${item.name} is out of stock`);
+    } else if (item.availableQuantity !== undefined && item.quantity > item.availableQuantity) {
+      notices.push(`Only ${item.availableQuantity} of ${item.name} left in stock`);
+    }
+  }
+
+  return notices;
+};
+
+// Turns an API error into something to show the customer
+const getErrorMessage = (error: any, fallback: string) => {
+  const data = error.response?.data;
+  if (data?.available !== undefined) {
+    return data.available > 0
+      ? `Only ${data.available} left in stock`
+      : 'This item is out of stock';
+  }
+  return data?.error || fallback;
+};
+
+// Discount code from a cart reminder email, prefilled at checkout
+export const RECOVERY_DISCOUNT_KEY = 'zamane-recovery-discount';
+
+// Bumped by every local change. A fetch that started before the latest
+// change would overwrite it with stale data, so its result is dropped.
+let version = 0;
+
 export const useCartStore = create<CartState>()(
   persist(
     (set, get) => ({
       items: [],
       itemCount: 0,
       subtotal: 0,
+      isLoading: false,
+      notices: [],
+      legacyItems: [],
 
-      addItem: (item) => {
-        set((state) => {
-          const existingIndex = state.items.findIndex(
-            (i) => i.productId === item.productId && i.variantId === item.variantId
-          );
-
-          let newItems: CartItem[];
-          
-          if (existingIndex > -1) {
-            // Update existing item
-            newItems = [...state.items];
-            newItems[existingIndex] = {
-              ...newItems[existingIndex],
-              quantity: newItems[existingIndex].quantity + (item.quantity || 1),
-            };
-          } else {
-            // Add new item
-            newItems = [...state.items, { ...item, quantity: item.quantity || 1 }];
-          }
+      fetchCart: async () => {
+        const started = version;
+        set({ isLoading: true });
+        try {
+          const response = await api.get('/cart');
+          if (started !== version) return;
 
-          const itemCount = newItems.reduce((sum, i) => sum + i.quantity, 0);
-          const subtotal = newItems.reduce((sum, i) => sum + i.price * i.quantity, 0);
+          const items = (response.data.items as ServerCartItem[]).map(toCartItem);
+          set((state) => ({
+            items,
+            ...getTotals(items),
+            notices: getNotices(state.items, items),
+          }));
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      // Adds a locally saved cart to the server cart once. Items the server
+      // won't take are listed in the notices; if the server can't be reached
+      // the rest are kept for the next visit.
+      restoreLegacyCart: async () => {
+        const failed: string[] = [];
+
+        while (get().legacyItems.length > 0) {
+          const [item] = get().legacyItems;
+          try {
+            await api.post('/cart/add', {
+              productId: item.productId,
+              variantId: item.variantId,
+              quantity: item.quantity,
+            });
+          } catch (error: any) {
+            if (!error.response) break;
+            failed.push(`${item.name} could not be added back to your cart: ${getErrorMessage(error, 'it is no longer available')}`);
+          }
+          // Saved after each item, so a reload doesn't add it twice
+          set((state) => ({ legacyItems: state.legacyItems.slice(1) }));
+        }
 
-          return { items: newItems, itemCount, subtotal };
-        });
+        version++;
+        await get().fetchCart();
+        set((state) => ({ notices: [...state.notices, ...failed] }));
       },
 
-      removeItem: (productId, variantId) => {
-        set((state) => {
-          const newItems = state.items.filter(
-            (i) => !(i.productId === productId && i.variantId === variantId)
-          );
-          
-          const itemCount = newItems.reduce((sum, i) => sum + i.quantity, 0);
-          const subtotal = newItems.reduce((sum, i) => sum + i.price * i.quantity, 0);
-
-          return { items: newItems, itemCount, subtotal };
-        });
+      addItem: async (item) => {
+        const quantity = item.quantity || 1;
+        const previous = get().items;
+        version++;
+
+        // Show the item straight away, then let the server confirm it
+        const existing = previous.find(
+          (i) => i.productId === item.productId && i.variantId === item.variantId
+        );
+        const items = existing
+          ? previous.map((i) => (i === existing ? { ...i, quantity: i.quantity + quantity } : i))
+          : [...previous, { ...item, id: `temp-${Date.now()}`, quantity, inStock: true }];
+        set({ items, ...getTotals(items) });
+
+        try {
+          await api.post('/cart/add', {
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity,
+          });
+        } catch (error) {
+          set({ items: previous, ...getTotals(previous) });
+          throw new Error(getErrorMessage(error, 'Failed to add to cart'));
+        } finally {
+          get().fetchCart().catch(() => {});
+        }
       },
 
-      updateQuantity: (productId, quantity, variantId) => {
-        set((state) => {
-          if (quantity < 1) {
-            return state;
+      removeItem: async (itemId) => {
+        const previous = get().items;
+        version++;
+
+        const items = previous.filter((i) => i.id !== itemId);
+        set({ items, ...getTotals(items) });
+
+        try {
+          await api.delete(`/cart/${itemId}`);
+        } catch (error: any) {
+          // Already gone on the server, e.g. removed in another tab
+          if (error.response?.status !== 404) {
+            set({ items: previous, ...getTotals(previous) });
+            throw new Error(getErrorMessage(error, 'Failed to remove item'));
           }
+        } finally {
+          get().fetchCart().catch(() => {});
+        }
+      },
 
-          const newItems = state.items.map((item) => {
-            if (item.productId === productId && item.variantId === variantId) {
-              return { ...item, quantity };
-            }
-            return item;
-          });
+      updateQuantity: async (itemId, quantity) => {
+        if (quantity < 1) return;
 
-          const itemCount = newItems.reduce((sum, i) => sum + i.quantity, 0);
-          const subtotal = newItems.reduce((sum, i) => sum + i.price * i.quantity, 0);
+        const previous = get().items;
+        version++;
 
-          return { items: newItems, itemCount, subtotal };
-        });
+        const items = previous.map((i) => (i.id === itemId ? { ...i, quantity } : i));
+        set({ items, ...getTotals(items) });
+
+        try {
+          await api.put(`/cart/${itemId}`, { quantity });
+        } catch (error) {
+          set({ items: previous, ...getTotals(previous) });
+          throw new Error(getErrorMessage(error, 'Failed to update quantity'));
+        } finally {
+          get().fetchCart().catch(() => {});
+        }
+      },
+
+      clearCart: async () => {
+        const previous = get().items;
+        version++;
+
+        set({ items: [], itemCount: 0, subtotal: 0, notices: [] });
+
+        try {
+          await api.delete('/cart');
+        } catch (error) {
+          set({ items: previous, ...getTotals(previous) });
+          throw new Error(getErrorMessage(error, 'Failed to clear cart'));
+        }
+      },
+
+      // Moves the guest cart into the account after login or registration
+      mergeGuestCart: async () => {
+        version++;
+        try {
+          await api.post('/cart/merge', { sessionId: getCartSessionId() });
+        } finally {
+          await get().fetchCart();
+        }
+      },
+
+      // Forget the account's cart locally, e.g. after logout
+      resetCart: () => {
+        version++;
+        set({ items: [], itemCount: 0, subtotal: 0, notices: [] });
       },
 
-      clearCart: () => {
-        set({ items: [], itemCount: 0, subtotal: 0 });
+      dismissNotices: () => {
+        set({ notices: [] });
       },
 
       getItem: (productId, variantId) => {
@@ -109,6 +299,34 @@ export const useCartStore = create<CartState>()(
     }),
     {
       name: 'zamane-cart',
+      // Version 0 kept the whole cart locally, without server item IDs. Its
+      // items are added to the server cart on the next load.
+      version: 1,
+      migrate: (persisted, fromVersion) => {
+        const saved = fromVersion === 0 ? (persisted as { items?: LegacyCartItem[] } | null)?.items : undefined;
+        return {
+          items: [],
+          itemCount: 0,
+          subtotal: 0,
+          legacyItems: (saved || [])
+            .filter((i) => i.productId && i.quantity > 0)
+            .map(({ productId, variantId, name, quantity }) => ({ productId, variantId, name, quantity })),
+        };
+      },
+      // Shown until the server cart loads; the server always wins
+      partialize: (state) => ({
+        items: state.items.filter((i) => !i.id.startsWith('temp-')),
+        itemCount: state.itemCount,
+        subtotal: state.subtotal,
+        legacyItems: state.legacyItems,
+      }),
     }
   )
 );
+
+// Load the server cart on app load, first adding a cart saved before carts
+// were kept on the server
+if (typeof window !== 'undefined') {
+  const cart = useCartStore.getState();
+  (cart.legacyItems.length > 0 ? cart.restoreLegacyCart() : cart.fetchCart()).catch(() => {});
+}